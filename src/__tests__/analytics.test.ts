@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import {
+  flushAnalytics,
+  isAnalyticsEnabled,
+  startAnalytics,
+  trackCommandEvent,
+  trackFunnelEvent,
+} from "../private/analytics";
+import { apiRequest } from "../private/api-client";
+
+jest.mock(
+  "vscode",
+  () => ({
+    env: { isTelemetryEnabled: true, onDidChangeTelemetryEnabled: jest.fn() },
+  }),
+  { virtual: true },
+);
+jest.mock("../private/api-client", () => ({ apiRequest: jest.fn() }));
+
+const env = vscode.env as unknown as {
+  isTelemetryEnabled: boolean;
+  onDidChangeTelemetryEnabled: jest.Mock;
+};
+
+// Mock VSCode extension context with an in-memory globalState
+const createContext = () => {
+  const state = new Map<string, unknown>();
+  return {
+    extension: { id: "publisher.extension" },
+    subscriptions: [] as vscode.Disposable[],
+    globalState: {
+      get: (key: string) => state.get(key),
+      update: async (key: string, value: unknown) => {
+        state.set(key, value);
+      },
+    },
+  } as unknown as vscode.ExtensionContext;
+};
+
+const getQueue = (context: vscode.ExtensionContext) =>
+  context.globalState.get<{ commandId?: string }[]>("analytics-queue") ?? [];
+
+const trackCommands = (context: vscode.ExtensionContext, count: number) => {
+  for (let i = 0; i < count; i++) {
+    trackCommandEvent(
+      context,
+      { commandId: `command-${i}`, durationMs: 1 },
+      "licensed",
+    );
+  }
+};
+
+describe("Analytics", () => {
+  let context: vscode.ExtensionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    env.isTelemetryEnabled = true;
+    env.onDidChangeTelemetryEnabled.mockReturnValue({ dispose: jest.fn() });
+    (apiRequest as jest.Mock).mockResolvedValue(
+      new Response(null, { status: 204 }),
+    );
+    context = createContext();
+  });
+
+  afterEach(() => {
+    context.subscriptions.forEach((subscription) => subscription.dispose());
+  });
+
+  it("should send queued events one at a time", async () => {
+    startAnalytics(context, true);
+    trackCommands(context, 60);
+
+    await flushAnalytics();
+
+    const commandIds = (apiRequest as jest.Mock).mock.calls.map(
+      ([, path, options]) => {
+        expect(path).toBe("/analytics/events");
+        return options.body.commandId;
+      },
+    );
+    expect(commandIds).toHaveLength(60);
+    expect(commandIds[0]).toBe("command-0");
+    expect(getQueue(context)).toEqual([]);
+  });
+
+  it("should drop an event the server rejects and send the rest", async () => {
+    (apiRequest as jest.Mock)
+      .mockResolvedValueOnce(new Response(null, { status: 400 }))
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    startAnalytics(context, true);
+    trackCommands(context, 3);
+
+    await flushAnalytics();
+
+    expect(apiRequest).toHaveBeenCalledTimes(3);
+    expect(getQueue(context)).toEqual([]);
+  });
+
+  it("should keep events while the server is unreachable, up to a limit", async () => {
+    (apiRequest as jest.Mock).mockRejectedValue(new Error("offline"));
+    startAnalytics(context, true);
+    trackCommands(context, 510);
+
+    await flushAnalytics();
+
+    const queue = getQueue(context);
+    expect(queue).toHaveLength(500);
+    expect(queue[0].commandId).toBe("command-10");
+  });
+
+  it("should not record events while telemetry is disabled", async () => {
+    env.isTelemetryEnabled = false;
+    startAnalytics(context, true);
+    trackFunnelEvent(context, "prompt-shown");
+
+    await flushAnalytics();
+
+    expect(getQueue(context)).toEqual([]);
+    expect(apiRequest).not.toHaveBeenCalledWith(
+      context,
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it("should drop queued events when telemetry is turned off", async () => {
+    (apiRequest as jest.Mock).mockRejectedValue(new Error("offline"));
+    startAnalytics(context, true);
+    trackCommands(context, 3);
+    await flushAnalytics();
+    expect(getQueue(context)).toHaveLength(3);
+
+    env.isTelemetryEnabled = false;
+    env.onDidChangeTelemetryEnabled.mock.calls[0][0](false);
+    await flushAnalytics();
+
+    expect(getQueue(context)).toEqual([]);
+  });
+
+  it("should report whether events are recorded", () => {
+    expect(isAnalyticsEnabled(context)).toBe(false);
+
+    startAnalytics(context, true);
+    expect(isAnalyticsEnabled(context)).toBe(true);
+
+    env.isTelemetryEnabled = false;
+    expect(isAnalyticsEnabled(context)).toBe(false);
+  });
+
+  it("should not record events when the extension opted out", async () => {
+    startAnalytics(context, false);
+    trackCommands(context, 3);
+
+    await flushAnalytics();
+
+    expect(getQueue(context)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  ApiUnreachableError,
+  parseRetryAfter,
+  request,
+} from "../private/api-client";
+
+// Only `request` is tested here, which doesn't resolve URLs or use the mock
+jest.mock("../private/utils", () => ({ getApiUrl: jest.fn() }));
+jest.mock("../private/mock-backend", () => ({ mockApiRequest: jest.fn() }));
+
+const fastRetries = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe("API Client", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("request", () => {
+    it("should return a successful response without retrying", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response(JSON.stringify({ url: "https://checkout" })),
+      );
+
+      const response = await request("https://api/checkout", fastRetries);
+
+      expect(await response.json()).toEqual({ url: "https://checkout" });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serialize the body as JSON", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(new Response("{}"));
+
+      await request("https://api/validate", {
+        method: "POST",
+        headers: { Authorization: "Bearer key" },
+        body: { machineId: "machine-id" },
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api/validate",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ machineId: "machine-id" }),
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: "Bearer key",
+          },
+        }),
+      );
+    });
+
+    it("should not retry responses the server answered definitively", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response("Forbidden", { status: 403 }),
+      );
+
+      const response = await request("https://api/validate", fastRetries);
+
+      expect(response.status).toBe(403);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry network errors and then succeed", async () => {
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(new Response("{}"));
+
+      const response = await request("https://api/validate", fastRetries);
+
+      expect(response.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw ApiUnreachableError when every attempt fails", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(
+        new TypeError("fetch failed"),
+      );
+
+      await expect(
+        request("https://api/validate", { ...fastRetries, retries: 2 }),
+      ).rejects.toBeInstanceOf(ApiUnreachableError);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should abort attempts that exceed the timeout", async () => {
+      (global.fetch as jest.Mock).mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => {
+              const error = new Error("This operation was aborted");
+              error.name = "AbortError";
+              reject(error);
+            });
+          }),
+      );
+
+      await expect(
+        request("https://api/validate", {
+          ...fastRetries,
+          retries: 0,
+          timeoutMs: 10,
+        }),
+      ).rejects.toThrow("timed out after 10ms");
+    });
+
+    it("should retry 503 responses and return the last one", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response("Unavailable", {
+          status: 503,
+          headers: { "Retry-After": "0" },
+        }),
+      );
+
+      const response = await request("https://api/validate", {
+        ...fastRetries,
+        retries: 1,
+      });
+
+      expect(response.status).toBe(503);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop retrying when Retry-After exceeds the maximum delay", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response("Too Many Requests", {
+          status: 429,
+          headers: { "Retry-After": "3600" },
+        }),
+      );
+
+      const response = await request("https://api/validate", {
+        ...fastRetries,
+        retries: 2,
+      });
+
+      expect(response.status).toBe(429);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delays in seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const now = Date.parse("Wed, 21 Oct 2025 07:28:00 GMT");
+
+      expect(parseRetryAfter("Wed, 21 Oct 2025 07:28:05 GMT", now)).toBe(5000);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import * as vscode from "vscode";
+import { setCheckoutConfig } from "../private/config";
+import {
+  consumeCheckoutState,
+  createCheckoutState,
+} from "../private/checkout-state";
+
+const createContext = () => {
+  const context = {} as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+describe("Checkout State", () => {
+  it("should accept the nonce of the pending checkout once", async () => {
+    const context = createContext();
+    const nonce = await createCheckoutState(context, "LICENSE-KEY");
+
+    expect(
+      await consumeCheckoutState(context, "LICENSE-KEY", nonce),
+    ).toBeUndefined();
+    expect(await consumeCheckoutState(context, "LICENSE-KEY", nonce)).toBe(
+      "no checkout is pending",
+    );
+  });
+
+  it("should reject links without a matching nonce", async () => {
+    const context = createContext();
+    await createCheckoutState(context, "LICENSE-KEY");
+
+    expect(await consumeCheckoutState(context, "LICENSE-KEY", null)).toBe(
+      "the link has no state parameter",
+    );
+    expect(
+      await consumeCheckoutState(context, "LICENSE-KEY", "forged-nonce"),
+    ).toBe("the state parameter doesn't match the pending checkout");
+  });
+
+  it("should reject a nonce used with another license key", async () => {
+    const context = createContext();
+    const nonce = await createCheckoutState(context, "LICENSE-KEY");
+
+    expect(await consumeCheckoutState(context, "OTHER-KEY", nonce)).toBe(
+      "the license key doesn't match the pending checkout",
+    );
+  });
+
+  it("should reject an expired nonce", async () => {
+    const context = createContext();
+    const now = Date.UTC(2025, 4, 17);
+    const nonce = await createCheckoutState(context, "LICENSE-KEY", now);
+
+    expect(
+      await consumeCheckoutState(
+        context,
+        "LICENSE-KEY",
+        nonce,
+        now + 2 * 24 * 60 * 60 * 1000,
+      ),
+    ).toBe("the pending checkout has expired");
+  });
+});
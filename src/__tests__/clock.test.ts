@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { setCheckoutConfig } from "../private/config";
+import {
+  getServerTime,
+  getTrustedTime,
+  recordServerTime,
+} from "../private/clock";
+
+const createContext = () => {
+  const context = {} as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("Clock", () => {
+  describe("getTrustedTime", () => {
+    it("should return the system time while the clock moves forward", async () => {
+      const context = createContext();
+      const start = Date.UTC(2025, 4, 17);
+
+      expect(await getTrustedTime(context, start)).toEqual({
+        now: start,
+        rollbackDetected: false,
+      });
+      expect(await getTrustedTime(context, start + HOUR_MS)).toEqual({
+        now: start + HOUR_MS,
+        rollbackDetected: false,
+      });
+    });
+
+    it("should never go back before the highest time seen", async () => {
+      const context = createContext();
+      const start = Date.UTC(2025, 4, 17);
+      await getTrustedTime(context, start);
+
+      const result = await getTrustedTime(context, start - 30 * 24 * HOUR_MS);
+
+      expect(result.now).toBe(start);
+      expect(result.rollbackDetected).toBe(true);
+    });
+
+    it("should tolerate small corrections of the clock", async () => {
+      const context = createContext();
+      const start = Date.UTC(2025, 4, 17);
+      await getTrustedTime(context, start);
+
+      const result = await getTrustedTime(context, start - 60 * 1000);
+
+      expect(result.rollbackDetected).toBe(false);
+    });
+  });
+
+  describe("recordServerTime", () => {
+    it("should replace a watermark that was set too far ahead", async () => {
+      const context = createContext();
+      const now = Date.UTC(2025, 4, 17);
+      await getTrustedTime(context, now + 365 * 24 * HOUR_MS);
+
+      await recordServerTime(context, now);
+
+      expect(await getTrustedTime(context, now)).toEqual({
+        now,
+        rollbackDetected: false,
+      });
+    });
+  });
+
+  describe("getServerTime", () => {
+    it("should prefer the server time in the body over the Date header", () => {
+      const response = new Response(null, {
+        headers: { Date: "Sat, 17 May 2025 00:00:00 GMT" },
+      });
+
+      expect(getServerTime(response)).toBe(Date.UTC(2025, 4, 17));
+      expect(
+        getServerTime(response, { serverTime: "2025-05-18T00:00:00.000Z" }),
+      ).toBe(Date.UTC(2025, 4, 18));
+    });
+
+    it("should return undefined when the server time is unknown", () => {
+      expect(getServerTime(new Response(null))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import type * as vscode from "vscode";
+import {
+  assertValidValidationPolicy,
+  getValidationPolicy,
+  isPastHardFailDate,
+  setCheckoutConfig,
+} from "../private/config";
+
+describe("Config", () => {
+  describe("assertValidValidationPolicy", () => {
+    it("should accept a policy with a valid hard-fail date", () => {
+      expect(() =>
+        assertValidValidationPolicy({ hardFailDate: "2026-01-01" }),
+      ).not.toThrow();
+      expect(() => assertValidValidationPolicy(undefined)).not.toThrow();
+    });
+
+    it("should reject an invalid hard-fail date", () => {
+      expect(() =>
+        assertValidValidationPolicy({ hardFailDate: "next year" }),
+      ).toThrow("Invalid hardFailDate: next year");
+    });
+  });
+
+  describe("getValidationPolicy", () => {
+    it("should fill in defaults and parse the hard-fail date", () => {
+      const context = {} as vscode.ExtensionContext;
+      setCheckoutConfig(context, {
+        validation: { gracePeriodDays: 7, hardFailDate: "2026-01-01" },
+      });
+
+      expect(getValidationPolicy(context)).toEqual({
+        gracePeriodDays: 7,
+        revalidationIntervalHours: 0,
+        hardFailDate: new Date("2026-01-01"),
+        cacheTtlSeconds: 60,
+      });
+      expect(isPastHardFailDate(context, Date.UTC(2025, 11, 31))).toBe(false);
+      expect(isPastHardFailDate(context, Date.UTC(2026, 0, 1))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  getEffectiveEntitlements,
+  getMissingRequirement,
+  hasEntitlement,
+  meetsMinimumTier,
+  TierDefinition,
+} from "../private/entitlements";
+
+const tiers: TierDefinition[] = [
+  { name: "pro", entitlements: ["export"] },
+  { name: "team", entitlements: ["shared-workspaces"] },
+];
+
+describe("Entitlements", () => {
+  describe("getEffectiveEntitlements", () => {
+    it("should include entitlements of the tier and the tiers below it", () => {
+      const entitlements = getEffectiveEntitlements(
+        { tier: "team", entitlements: ["ai-refactor"] },
+        tiers,
+      );
+
+      expect(entitlements.sort()).toEqual(
+        ["ai-refactor", "export", "shared-workspaces"].sort(),
+      );
+    });
+
+    it("should return no entitlements without a license", () => {
+      expect(getEffectiveEntitlements(null, tiers)).toEqual([]);
+    });
+  });
+
+  describe("hasEntitlement", () => {
+    it("should grant entitlements listed on the license", () => {
+      expect(
+        hasEntitlement({ entitlements: ["ai-refactor"] }, "ai-refactor"),
+      ).toBe(true);
+    });
+
+    it("should not grant entitlements of higher tiers", () => {
+      expect(hasEntitlement({ tier: "pro" }, "shared-workspaces", tiers)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("meetsMinimumTier", () => {
+    it("should accept the same or a higher tier", () => {
+      expect(meetsMinimumTier({ tier: "pro" }, "pro", tiers)).toBe(true);
+      expect(meetsMinimumTier({ tier: "team" }, "pro", tiers)).toBe(true);
+    });
+
+    it("should reject a lower or missing tier", () => {
+      expect(meetsMinimumTier({ tier: "pro" }, "team", tiers)).toBe(false);
+      expect(meetsMinimumTier({}, "pro", tiers)).toBe(false);
+    });
+  });
+
+  describe("getMissingRequirement", () => {
+    it("should report the minimum tier that is not met", () => {
+      expect(
+        getMissingRequirement({ tier: "pro" }, { minimumTier: "team" }, tiers),
+      ).toEqual({ tier: "team" });
+    });
+
+    it("should suggest the lowest tier granting a missing entitlement", () => {
+      expect(
+        getMissingRequirement(
+          { entitlements: [] },
+          { entitlement: "shared-workspaces" },
+          tiers,
+        ),
+      ).toEqual({ entitlement: "shared-workspaces", tier: "team" });
+    });
+
+    it("should return undefined when all requirements are met", () => {
+      expect(
+        getMissingRequirement(
+          { tier: "team" },
+          { minimumTier: "pro", entitlement: "export" },
+          tiers,
+        ),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import * as vscode from "vscode";
+import { showExpiryReminder } from "../private/expiry-reminders";
+import { getEffectiveLicense } from "../private/license-validator";
+import { setCheckoutConfig } from "../private/config";
+
+jest.mock(
+  "vscode",
+  () => ({
+    env: { openExternal: jest.fn() },
+    window: { showInformationMessage: jest.fn() },
+    Uri: { parse: (value: string) => value },
+    ExtensionMode: { Production: 1 },
+  }),
+  { virtual: true },
+);
+jest.mock("../private/license-validator", () => ({
+  getEffectiveLicense: jest.fn(),
+}));
+
+const showInformationMessage = vscode.window
+  .showInformationMessage as jest.Mock;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Local noon, so expiries a few hours away stay on the same calendar day
+const NOON = new Date(2025, 4, 17, 12).getTime();
+
+const createContext = () => {
+  const context = {
+    extension: {
+      id: "publisher.extension",
+      packageJSON: { displayName: "Extension" },
+    },
+    extensionMode: 1,
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, {
+    storage: "memory",
+    webUrl: "https://example.com",
+  });
+  return context;
+};
+
+const mockLicenseExpiringIn = (ms: number, autoRenew = false) => {
+  (getEffectiveLicense as jest.Mock).mockResolvedValue({
+    licenseKey: "LICENSE-KEY",
+    isValid: true,
+    expiresOn: new Date(Date.now() + ms).toISOString(),
+    autoRenew,
+  });
+};
+
+describe("Expiry Reminders", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOON });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should not remind before the first reminder day", async () => {
+    mockLicenseExpiringIn(20 * DAY_MS);
+
+    await showExpiryReminder(createContext());
+
+    expect(showInformationMessage).not.toHaveBeenCalled();
+  });
+
+  it("should show the most urgent reminder that is due", async () => {
+    mockLicenseExpiringIn(2.5 * DAY_MS);
+
+    await showExpiryReminder(createContext(), [14, 3, 1]);
+
+    expect(showInformationMessage).toHaveBeenCalledWith(
+      expect.stringContaining("license expires in 3 days"),
+      "Renew",
+      "Remind Me Later",
+    );
+  });
+
+  it("should say today for an expiry later today", async () => {
+    mockLicenseExpiringIn(6 * HOUR_MS);
+
+    await showExpiryReminder(createContext());
+
+    expect(showInformationMessage).toHaveBeenCalledWith(
+      expect.stringContaining("license expires today"),
+      "Renew",
+      "Remind Me Later",
+    );
+  });
+
+  it("should say tomorrow for an expiry on the next day", async () => {
+    mockLicenseExpiringIn(20 * HOUR_MS);
+
+    await showExpiryReminder(createContext());
+
+    expect(showInformationMessage).toHaveBeenCalledWith(
+      expect.stringContaining("license expires tomorrow"),
+      "Renew",
+      "Remind Me Later",
+    );
+  });
+
+  it("should snooze a closed reminder until the next day", async () => {
+    const context = createContext();
+    mockLicenseExpiringIn(2.5 * DAY_MS);
+    showInformationMessage.mockResolvedValue(undefined);
+    await showExpiryReminder(context);
+
+    jest.setSystemTime(NOON + 12 * HOUR_MS);
+    await showExpiryReminder(context);
+    expect(showInformationMessage).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(NOON + DAY_MS + HOUR_MS);
+    await showExpiryReminder(context);
+    expect(showInformationMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not show a reminder again after it was acted on", async () => {
+    const context = createContext();
+    mockLicenseExpiringIn(2.5 * DAY_MS, true);
+    showInformationMessage.mockResolvedValue("Manage Subscription");
+    await showExpiryReminder(context);
+    expect(vscode.env.openExternal).toHaveBeenCalledWith(
+      "https://example.com/manage?id=publisher.extension",
+    );
+
+    jest.setSystemTime(NOON + DAY_MS + HOUR_MS);
+    await showExpiryReminder(context);
+
+    expect(showInformationMessage).toHaveBeenCalledTimes(1);
+  });
+});
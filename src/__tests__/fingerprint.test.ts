@@ -0,0 +1,90 @@
+import type * as vscode from "vscode";
+import {
+  FINGERPRINT_VERSION,
+  MachineFingerprint,
+  getMachineFingerprint,
+  hashComponents,
+  isSameMachine,
+} from "../private/fingerprint";
+import { setCheckoutConfig } from "../private/config";
+
+const machine = {
+  vscodeMachineId: "vscode-machine-id",
+  hostname: "workstation",
+  platform: "linux",
+  arch: "x64",
+  cpuModel: "Example CPU",
+  cpuCount: "8",
+  totalMemoryGb: "16",
+};
+
+const storedFingerprint = (
+  components: Record<string, string>,
+): MachineFingerprint => ({
+  version: FINGERPRINT_VERSION,
+  machineId: "machine-id",
+  components: hashComponents(components),
+});
+
+const createContext = () => {
+  const context = {
+    extension: { id: "publisher.extension" },
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+describe("Fingerprint", () => {
+  describe("isSameMachine", () => {
+    it("should match a machine whose VS Code machine id is unchanged", () => {
+      const current = hashComponents({
+        ...machine,
+        hostname: "renamed",
+        cpuModel: "Upgraded CPU",
+        totalMemoryGb: "32",
+      });
+
+      expect(isSameMachine(storedFingerprint(machine), current)).toBe(true);
+    });
+
+    it("should not match another machine that only shares common properties", () => {
+      const current = hashComponents({
+        ...machine,
+        vscodeMachineId: "other-machine-id",
+        hostname: "other",
+      });
+
+      expect(isSameMachine(storedFingerprint(machine), current)).toBe(false);
+    });
+
+    it("should not match on the hostname and CPU alone when the machine id changed", () => {
+      const current = hashComponents({
+        ...machine,
+        vscodeMachineId: "other-machine-id",
+      });
+
+      expect(isSameMachine(storedFingerprint(machine), current)).toBe(false);
+    });
+
+    it("should not match a fingerprint of another version", () => {
+      const stored = {
+        ...storedFingerprint(machine),
+        version: FINGERPRINT_VERSION + 1,
+      };
+
+      expect(isSameMachine(stored, hashComponents(machine))).toBe(false);
+    });
+  });
+
+  describe("getMachineFingerprint", () => {
+    it("should keep the machine id across calls", async () => {
+      const context = createContext();
+
+      const first = await getMachineFingerprint(context);
+      const second = await getMachineFingerprint(context);
+
+      expect(second.machineId).toBe(first.machineId);
+      expect(second.version).toBe(FINGERPRINT_VERSION);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import { revokeLicense } from "../private/license-actions";
+import {
+  getStoredLicense,
+  storeLicenseKey,
+} from "../private/license-validator";
+import { apiRequest, ApiUnreachableError } from "../private/api-client";
+import { setCheckoutConfig } from "../private/config";
+
+jest.mock(
+  "vscode",
+  () => ({
+    env: { machineId: "machine-id" },
+    window: { showInformationMessage: jest.fn() },
+    workspace: {
+      getConfiguration: () => ({
+        get: (_key: string, defaultValue: unknown) => defaultValue,
+      }),
+    },
+  }),
+  { virtual: true },
+);
+jest.mock("../private/api-client", () => ({
+  ...jest.requireActual("../private/api-client"),
+  apiRequest: jest.fn(),
+}));
+
+const showInformationMessage = vscode.window
+  .showInformationMessage as jest.Mock;
+
+// Mock VSCode extension context with a stored license key
+const createContext = async () => {
+  const context = {
+    extension: {
+      id: "publisher.extension",
+      packageJSON: { name: "extension" },
+    },
+    subscriptions: [],
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  await storeLicenseKey(context, "LICENSE-KEY");
+  return context;
+};
+
+describe("License Actions", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("revokeLicense", () => {
+    it("should release the seat and remove the license", async () => {
+      const context = await createContext();
+      showInformationMessage.mockResolvedValueOnce("Revoke License");
+      (apiRequest as jest.Mock).mockResolvedValue(
+        new Response(null, { status: 204 }),
+      );
+
+      expect(await revokeLicense(context)).toBe(true);
+
+      expect(apiRequest).toHaveBeenCalledWith(
+        context,
+        expect.stringMatching(/^\/licenses\/machines\//),
+        expect.objectContaining({ method: "DELETE" }),
+      );
+      expect(await getStoredLicense(context)).toBeUndefined();
+      expect(showInformationMessage).toHaveBeenLastCalledWith(
+        "License revoked successfully!",
+      );
+    });
+
+    it("should remove the license when the seat could not be released", async () => {
+      const context = await createContext();
+      showInformationMessage.mockResolvedValueOnce("Revoke License");
+      (apiRequest as jest.Mock).mockRejectedValue(
+        new ApiUnreachableError("offline"),
+      );
+
+      expect(await revokeLicense(context)).toBe(true);
+
+      expect(await getStoredLicense(context)).toBeUndefined();
+      expect(showInformationMessage).toHaveBeenLastCalledWith(
+        expect.stringContaining("seat could not be released"),
+      );
+    });
+
+    it("should keep the license when the user cancels", async () => {
+      const context = await createContext();
+      showInformationMessage.mockResolvedValueOnce(undefined);
+
+      expect(await revokeLicense(context)).toBe(false);
+
+      expect(apiRequest).not.toHaveBeenCalled();
+      expect(await getStoredLicense(context)).toBe("LICENSE-KEY");
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type * as vscode from "vscode";
+import { scheduleExpiryCheck } from "../private/license-events";
+import { logger } from "../private/logger";
+
+const createContext = () =>
+  ({ subscriptions: [] }) as unknown as vscode.ExtensionContext;
+
+const inOneMinute = () => new Date(Date.now() + 60 * 1000).toISOString();
+
+describe("License Events", () => {
+  describe("scheduleExpiryCheck", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it("should call back when the license expires", async () => {
+      const context = createContext();
+      const onExpired = jest.fn();
+
+      scheduleExpiryCheck(context, inOneMinute(), onExpired);
+      await jest.advanceTimersByTimeAsync(59 * 1000);
+      expect(onExpired).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(onExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it("should log a failed callback", async () => {
+      const context = createContext();
+      const error = jest.spyOn(logger, "error").mockImplementation();
+
+      scheduleExpiryCheck(context, inOneMinute(), () =>
+        Promise.reject(new Error("refresh failed")),
+      );
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(error).toHaveBeenCalledWith(
+        "License expiry check failed:",
+        expect.any(Error),
+      );
+    });
+
+    it("should cancel the schedule when the extension is deactivated", async () => {
+      const context = createContext();
+      const onExpired = jest.fn();
+
+      scheduleExpiryCheck(context, inOneMinute(), onExpired);
+      scheduleExpiryCheck(context, inOneMinute(), onExpired);
+      expect(context.subscriptions).toHaveLength(1);
+      context.subscriptions.forEach((subscription) => subscription.dispose());
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  LicenseRecord,
+  openLicenseRecord,
+  sealLicenseRecord,
+} from "../private/license-record";
+
+const record: LicenseRecord = {
+  expiresOn: "2030-01-01T00:00:00.000Z",
+  lastValidated: "2025-05-17T00:00:00.000Z",
+  machineId: "machine-id",
+  token: "signed-token",
+  tier: "pro",
+  entitlements: ["export"],
+};
+
+const secret = "publisher.extension:machine-id";
+
+describe("License Record", () => {
+  it("should open a record it sealed", () => {
+    const value = sealLicenseRecord("LICENSE-KEY", record, secret);
+
+    expect(openLicenseRecord("LICENSE-KEY", value, secret)).toEqual(record);
+  });
+
+  it("should reject a record that was modified", () => {
+    const sealed = JSON.parse(sealLicenseRecord("LICENSE-KEY", record, secret));
+    sealed.payload = sealed.payload.replace("2030", "2099");
+
+    expect(
+      openLicenseRecord("LICENSE-KEY", JSON.stringify(sealed), secret),
+    ).toBeNull();
+  });
+
+  it("should reject a record sealed on another machine", () => {
+    const value = sealLicenseRecord(
+      "LICENSE-KEY",
+      record,
+      "publisher.extension:other-machine",
+    );
+
+    expect(openLicenseRecord("LICENSE-KEY", value, secret)).toBeNull();
+  });
+
+  it("should reject a record of another license key", () => {
+    const value = sealLicenseRecord("OTHER-KEY", record, secret);
+
+    expect(openLicenseRecord("LICENSE-KEY", value, secret)).toBeNull();
+  });
+
+  it("should reject values that aren't sealed records", () => {
+    expect(openLicenseRecord("LICENSE-KEY", "not json", secret)).toBeNull();
+    expect(
+      openLicenseRecord("LICENSE-KEY", JSON.stringify(record), secret),
+    ).toBeNull();
+  });
+});
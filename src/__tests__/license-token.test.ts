@@ -0,0 +1,191 @@
+import * as crypto from "crypto";
+import {
+  LICENSE_PUBLIC_KEYS,
+  trustLicensePublicKey,
+  verifyLicenseToken,
+  verifyLicenseTokenSignature,
+} from "../private/license-token";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+const publicKeys = {
+  "test-key": publicKey.export({ type: "spki", format: "pem" }).toString(),
+};
+
+const expected = {
+  licenseKey: "LICENSE-KEY",
+  extensionId: "publisher.extension",
+  machineId: "machine-id",
+};
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signToken = (
+  claims: object,
+  header: object = { alg: "EdDSA", kid: "test-key" },
+) => {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+};
+
+const inThirtyDays = () =>
+  Math.floor((Date.now() + 30 * 24 * 60 * 60 * 1000) / 1000);
+
+describe("License Token", () => {
+  describe("verifyLicenseTokenSignature", () => {
+    it("should return the claims of a correctly signed token", () => {
+      const claims = {
+        ...expected,
+        exp: inThirtyDays(),
+        entitlements: ["pro"],
+      };
+      const result = verifyLicenseTokenSignature(signToken(claims), publicKeys);
+
+      expect(result.isValid).toBe(true);
+      expect(result.claims).toEqual(claims);
+    });
+
+    it("should reject a token whose payload was edited", () => {
+      const token = signToken({ ...expected, exp: inThirtyDays() });
+      const [header, , signature] = token.split(".");
+      const tampered = `${header}.${encode({
+        ...expected,
+        exp: inThirtyDays() * 2,
+      })}.${signature}`;
+
+      const result = verifyLicenseTokenSignature(tampered, publicKeys);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("signature is invalid");
+    });
+
+    it("should reject a token signed with an unknown key id", () => {
+      const token = signToken(
+        { ...expected, exp: inThirtyDays() },
+        { alg: "EdDSA", kid: "other-key" },
+      );
+
+      const result = verifyLicenseTokenSignature(token, publicKeys);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("Unknown license token signing key");
+    });
+
+    it("should reject unsupported algorithms", () => {
+      const token = signToken(
+        { ...expected, exp: inThirtyDays() },
+        { alg: "none", kid: "test-key" },
+      );
+
+      const result = verifyLicenseTokenSignature(token, publicKeys);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("Unsupported");
+    });
+
+    it("should reject malformed tokens", () => {
+      const result = verifyLicenseTokenSignature("not-a-token", publicKeys);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toBe("Malformed license token");
+    });
+  });
+
+  describe("embedded keys", () => {
+    it("should embed Ed25519 public keys", () => {
+      for (const publicKey of Object.values(LICENSE_PUBLIC_KEYS)) {
+        expect(crypto.createPublicKey(publicKey).asymmetricKeyType).toBe(
+          "ed25519",
+        );
+      }
+    });
+
+    it("should flag a token signed with a key that isn't embedded or trusted", () => {
+      const token = signToken(
+        { ...expected, exp: inThirtyDays() },
+        { alg: "EdDSA", kid: "code-checkout-2025" },
+      );
+
+      const result = verifyLicenseTokenSignature(token);
+
+      expect(result.isValid).toBe(false);
+      expect(result.unknownKey).toBe(true);
+    });
+  });
+
+  describe("trustLicensePublicKey", () => {
+    it("should verify tokens signed with a trusted key", () => {
+      trustLicensePublicKey("test-key", publicKeys["test-key"]);
+      const token = signToken({ ...expected, exp: inThirtyDays() });
+
+      expect(verifyLicenseTokenSignature(token).isValid).toBe(true);
+    });
+
+    it("should reject keys that aren't PEM public keys", () => {
+      expect(() => trustLicensePublicKey("other-key", "not a key")).toThrow(
+        "not a valid PEM public key",
+      );
+    });
+
+    it("should not replace embedded keys", () => {
+      LICENSE_PUBLIC_KEYS["embedded-key"] = publicKeys["test-key"];
+      try {
+        expect(() =>
+          trustLicensePublicKey("embedded-key", publicKeys["test-key"]),
+        ).toThrow("already embedded");
+      } finally {
+        delete LICENSE_PUBLIC_KEYS["embedded-key"];
+      }
+    });
+  });
+
+  describe("verifyLicenseToken", () => {
+    it("should accept a token bound to this license and machine", () => {
+      const token = signToken({ ...expected, exp: inThirtyDays() });
+
+      const result = verifyLicenseToken(
+        token,
+        expected,
+        Date.now(),
+        publicKeys,
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("should reject a token issued for another machine", () => {
+      const token = signToken({
+        ...expected,
+        machineId: "other-machine",
+        exp: inThirtyDays(),
+      });
+
+      const result = verifyLicenseToken(
+        token,
+        expected,
+        Date.now(),
+        publicKeys,
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("different machine");
+    });
+
+    it("should reject an expired token but still return its claims", () => {
+      const exp = Math.floor((Date.now() - 1000) / 1000);
+      const token = signToken({ ...expected, exp });
+
+      const result = verifyLicenseToken(
+        token,
+        expected,
+        Date.now(),
+        publicKeys,
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toBe("License has expired");
+      expect(result.claims?.exp).toBe(exp);
+    });
+  });
+});
@@ -1,51 +1,149 @@
 import * as vscode from "vscode";
+import * as os from "os";
+import * as fs from "fs";
+import * as path from "path";
 import {
   validateLicense,
   getStoredLicense,
   isLicenseExpired,
+  migrateLicenseKeySetting,
   needsOnlineValidation,
+  storeLicenseKey,
 } from "../private/license-validator";
+import { setCheckoutConfig } from "../private/config";
+import { verifyLicenseToken } from "../private/license-token";
+import { sealLicenseRecord } from "../private/license-record";
+import { getStorage } from "../private/storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mock VSCode extension context, with license data kept in memory
+const createContext = () => {
+  const context = {
+    extension: {
+      id: "publisher.extension",
+      packageJSON: { name: "extension", displayName: "Extension" },
+    },
+    extensionPath: "/fake/path",
+    extensionMode: 1,
+    subscriptions: [],
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+// Mock token verification so tests don't need the API signing key
+jest.mock("../private/license-token", () => ({
+  ...jest.requireActual("../private/license-token"),
+  verifyLicenseToken: jest.fn(),
+}));
 
-// Mock VSCode extension context
-const mockContext: vscode.ExtensionContext = {
-  extensionPath: "/fake/path",
-  secrets: {
-    store: jest.fn(),
-    get: jest.fn<Thenable<string | undefined>, [string]>(),
-    delete: jest.fn(),
-  },
-} as unknown as vscode.ExtensionContext;
-
-// Mock fs module
-jest.mock("fs", () => ({
-  existsSync: jest.fn(),
-  readFileSync: jest.fn(),
+// Mock the user settings that earlier versions kept the license key in
+jest.mock(
+  "vscode",
+  () => ({
+    env: { machineId: "machine-id" },
+    workspace: { getConfiguration: jest.fn() },
+    ConfigurationTarget: { Global: 1 },
+    ExtensionMode: { Production: 1 },
+  }),
+  { virtual: true },
+);
+
+let licenseKeySetting = "";
+
+// Mock the hostname so tests can rename the machine
+jest.mock("os", () => ({
+  ...jest.requireActual("os"),
+  hostname: jest.fn(() => "workstation"),
 }));
 
 // Mock fetch
 global.fetch = jest.fn();
 
+const mockVerifiedToken = (licenseKey: string, expiresOn: string) => {
+  (verifyLicenseToken as jest.Mock).mockReturnValue({
+    isValid: true,
+    claims: {
+      licenseKey,
+      extensionId: "publisher.extension",
+      machineId: "machine-id",
+      exp: new Date(expiresOn).getTime() / 1000,
+    },
+  });
+};
+
+const mockServerResponse = (body: object, status = 200) => {
+  (global.fetch as jest.Mock).mockImplementation(() =>
+    Promise.resolve(
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      }),
+    ),
+  );
+};
+
+const mockNetworkFailure = () => {
+  (global.fetch as jest.Mock).mockRejectedValue(new Error("Network error"));
+};
+
+/**
+ * Stores a license the way a successful online validation does
+ */
+const activateLicense = async (
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  expiresOn: string,
+  token: string | null = "signed-token",
+) => {
+  mockServerResponse({ isValid: true, expiresOn, token: token ?? undefined });
+  mockVerifiedToken(licenseKey, expiresOn);
+  const result = await validateLicense(context, licenseKey);
+  expect(result.isValid).toBe(true);
+};
+
+/**
+ * Moves the system clock forward by a number of days
+ */
+const advanceDays = (days: number) => {
+  const now = Date.now() + days * DAY_MS;
+  jest.spyOn(Date, "now").mockReturnValue(now);
+};
+
 describe("License Validator", () => {
+  const futureDate = new Date(Date.now() + 30 * DAY_MS).toISOString();
+
   beforeEach(() => {
     jest.clearAllMocks();
-
-    // Mock fetch response
-    (global.fetch as jest.Mock).mockResolvedValue({
-      ok: true,
-      json: () =>
-        Promise.resolve({
-          isValid: true,
-          expiresOn: new Date(
-            Date.now() + 30 * 24 * 60 * 60 * 1000,
-          ).toISOString(),
-        }),
+    (os.hostname as jest.Mock).mockReturnValue("workstation");
+    licenseKeySetting = "";
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: (_key: string, defaultValue: string) =>
+        licenseKeySetting || defaultValue,
+      update: async (_key: string, value?: string) => {
+        licenseKeySetting = value ?? "";
+      },
     });
+    mockServerResponse({ isValid: true, expiresOn: futureDate });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe("validateLicense", () => {
     it("should validate a license successfully online", async () => {
+      const context = createContext();
       const licenseKey = "valid-license-key";
-      const result = await validateLicense(mockContext, licenseKey);
+      mockServerResponse({
+        isValid: true,
+        expiresOn: futureDate,
+        token: "signed-token",
+      });
+      mockVerifiedToken(licenseKey, futureDate);
+
+      const result = await validateLicense(context, licenseKey);
 
       expect(result.isValid).toBe(true);
       expect(global.fetch).toHaveBeenCalledTimes(1);
@@ -58,124 +156,223 @@ describe("License Validator", () => {
           }),
         }),
       );
-      expect(mockContext.secrets.store).toHaveBeenCalledTimes(3); // Stores key, expiry, and last validated
+      expect(await getStoredLicense(context)).toBe(licenseKey);
+      expect(await isLicenseExpired(context)).toBe(false);
     });
 
     it("should handle invalid licenses from server", async () => {
-      (global.fetch as jest.Mock).mockResolvedValue({
-        ok: true,
-        json: () =>
-          Promise.resolve({
-            isValid: false,
-            message: "Invalid license key",
-          }),
-      });
+      const context = createContext();
+      await activateLicense(context, "invalid-key", futureDate);
+      mockServerResponse({ isValid: false, message: "Invalid license key" });
 
-      const result = await validateLicense(mockContext, "invalid-key");
+      const result = await validateLicense(context, "invalid-key");
 
       expect(result.isValid).toBe(false);
       expect(result.message).toBe("Invalid license key");
-      expect(mockContext.secrets.delete).toHaveBeenCalledTimes(3); // Clears stored data
+      // Clears stored data
+      expect(await needsOnlineValidation(context)).toBe(true);
+    });
+
+    it("should keep the stored license when another key is rejected", async () => {
+      const context = createContext();
+      await activateLicense(context, "stored-key", futureDate);
+      mockServerResponse({ message: "Unauthorized" }, 401);
+
+      const result = await validateLicense(context, "pending-key");
+
+      expect(result.isValid).toBe(false);
+      expect(await getStoredLicense(context)).toBe("stored-key");
+      expect(await needsOnlineValidation(context)).toBe(false);
     });
 
     it("should handle offline validation with valid stored license", async () => {
-      // Mock network failure
-      (global.fetch as jest.Mock).mockRejectedValue(new Error("Network error"));
+      const context = createContext();
+      const storedKey = "stored-key";
+      await activateLicense(context, storedKey, futureDate);
+      advanceDays(1);
+      mockNetworkFailure();
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(true);
+      expect(result.offlineGracePeriodUsed).toBe(true);
+    });
 
-      // Mock stored license data
+    it("should reject offline validation without a signed token", async () => {
+      const context = createContext();
       const storedKey = "stored-key";
-      const futureDate = new Date(
-        Date.now() + 30 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-      const recentDate = new Date(
-        Date.now() - 1 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve(storedKey);
-            case "license-expires":
-              return Promise.resolve(futureDate);
-            case "license-last-validated":
-              return Promise.resolve(recentDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
+      await activateLicense(context, storedKey, futureDate);
+      // A rejected license keeps its key but loses its token
+      mockServerResponse({ message: "Unauthorized" }, 401);
+      await validateLicense(context, storedKey);
+      mockNetworkFailure();
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("No signed license token");
+    });
+
+    it("should not allow offline use when the server issues no token", async () => {
+      const context = createContext();
+      const storedKey = "stored-key";
+      await activateLicense(context, storedKey, futureDate, null);
+      advanceDays(1);
+      mockNetworkFailure();
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("No signed license token");
+      expect(await isLicenseExpired(context)).toBe(true);
+    });
+
+    it("should keep a license whose token is signed with an unknown key", async () => {
+      const context = createContext();
+      const storedKey = "stored-key";
+      mockServerResponse({
+        isValid: true,
+        expiresOn: futureDate,
+        token: "signed-token",
+      });
+      (verifyLicenseToken as jest.Mock).mockReturnValue({
+        isValid: false,
+        message: "Unknown license token signing key",
+        unknownKey: true,
+      });
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(true);
+      expect(await getStoredLicense(context)).toBe(storedKey);
+      advanceDays(1);
+      mockNetworkFailure();
+      expect((await validateLicense(context, storedKey)).message).toContain(
+        "No signed license token",
+      );
+    });
+
+    it("should share one request between concurrent validations", async () => {
+      const context = createContext();
+      const licenseKey = "shared-key";
+      mockVerifiedToken(licenseKey, futureDate);
+      mockServerResponse({
+        isValid: true,
+        expiresOn: futureDate,
+        token: "signed-token",
+      });
+
+      const results = await Promise.all([
+        validateLicense(context, licenseKey),
+        validateLicense(context, licenseKey),
+      ]);
+
+      expect(results[0]).toBe(results[1]);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should send a new request after a validation failed", async () => {
+      const context = createContext();
+      const licenseKey = "failing-key";
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response("not json", { status: 200 }),
       );
 
-      const result = await validateLicense(mockContext, storedKey);
+      await expect(validateLicense(context, licenseKey)).rejects.toThrow(
+        "Failed to validate license",
+      );
+      await expect(validateLicense(context, licenseKey)).rejects.toThrow(
+        "Failed to validate license",
+      );
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fall back to offline validation when rate limited", async () => {
+      const context = createContext();
+      const storedKey = "stored-key";
+      await activateLicense(context, storedKey, futureDate);
+      mockServerResponse({ message: "Too many requests" }, 429);
+
+      const result = await validateLicense(context, storedKey);
 
       expect(result.isValid).toBe(true);
       expect(result.offlineGracePeriodUsed).toBe(true);
     });
 
     it("should reject offline validation with expired grace period", async () => {
-      // Mock network failure
-      (global.fetch as jest.Mock).mockRejectedValue(new Error("Network error"));
-
-      // Mock stored license data with old validation date
+      const context = createContext();
       const storedKey = "stored-key";
-      const futureDate = new Date(
-        Date.now() + 30 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-      const oldDate = new Date(
-        Date.now() - 8 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve(storedKey);
-            case "license-expires":
-              return Promise.resolve(futureDate);
-            case "license-last-validated":
-              return Promise.resolve(oldDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
-      );
+      await activateLicense(context, storedKey, futureDate);
+      advanceDays(8);
+      mockNetworkFailure();
 
-      const result = await validateLicense(mockContext, storedKey);
+      const result = await validateLicense(context, storedKey);
 
       expect(result.isValid).toBe(false);
       expect(result.message).toContain("Offline grace period has expired");
     });
 
-    it("should reject offline validation with mismatched license key", async () => {
-      // Mock network failure
-      (global.fetch as jest.Mock).mockRejectedValue(new Error("Network error"));
-
-      // Mock stored license data
+    it("should use the grace period of the validation policy", async () => {
+      const context = createContext();
+      setCheckoutConfig(context, {
+        storage: "memory",
+        validation: { gracePeriodDays: 7 },
+      });
       const storedKey = "stored-key";
-      const differentKey = "different-key";
-      const futureDate = new Date(
-        Date.now() + 30 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-      const recentDate = new Date(
-        Date.now() - 1 * 24 * 60 * 60 * 1000,
-      ).toISOString();
-
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve(storedKey);
-            case "license-expires":
-              return Promise.resolve(futureDate);
-            case "license-last-validated":
-              return Promise.resolve(recentDate);
-            default:
-              return Promise.resolve(null);
-          }
+      await activateLicense(context, storedKey, futureDate);
+      mockNetworkFailure();
+
+      advanceDays(5);
+      expect((await validateLicense(context, storedKey)).isValid).toBe(true);
+
+      advanceDays(3);
+      const result = await validateLicense(context, storedKey);
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("grace period has expired");
+    });
+
+    it("should reject offline validation after the hard fail date", async () => {
+      const context = createContext();
+      setCheckoutConfig(context, {
+        storage: "memory",
+        validation: {
+          hardFailDate: new Date(Date.now() + DAY_MS).toISOString(),
         },
-      );
+      });
+      const storedKey = "stored-key";
+      await activateLicense(context, storedKey, futureDate);
+      advanceDays(2);
+      mockNetworkFailure();
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("no longer permitted");
+    });
+
+    it("should detect a clock set back after the watermark was removed", async () => {
+      const context = createContext();
+      const storedKey = "stored-key";
+      await activateLicense(context, storedKey, futureDate);
+      advanceDays(1);
+      mockNetworkFailure();
+      expect((await validateLicense(context, storedKey)).isValid).toBe(true);
+      await getStorage(context).removeItem("time-watermark");
+      advanceDays(-1);
+
+      const result = await validateLicense(context, storedKey);
+
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain("system clock");
+    });
+
+    it("should reject offline validation with mismatched license key", async () => {
+      const context = createContext();
+      await activateLicense(context, "stored-key", futureDate);
+      mockNetworkFailure();
 
-      const result = await validateLicense(mockContext, differentKey);
+      const result = await validateLicense(context, "different-key");
 
       expect(result.isValid).toBe(false);
       expect(result.message).toContain("License key mismatch");
@@ -184,74 +381,131 @@ describe("License Validator", () => {
 
   describe("getStoredLicense", () => {
     it("should return stored license key", async () => {
+      const context = createContext();
       const storedKey = "stored-key";
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          if (key === "license-key") {
-            return Promise.resolve(storedKey);
-          }
-          return Promise.resolve("test-secret"); // Keep the secret available
-        },
-      );
+      await storeLicenseKey(context, storedKey);
 
-      const result = await getStoredLicense(mockContext);
+      const result = await getStoredLicense(context);
 
       expect(result).toBe(storedKey);
-      expect(mockContext.secrets.get).toHaveBeenCalledWith("license-key");
     });
 
     it("should return undefined when no license is stored", async () => {
-      (mockContext.secrets.get as jest.Mock).mockResolvedValue(undefined);
-
-      const result = await getStoredLicense(mockContext);
+      const result = await getStoredLicense(createContext());
 
       expect(result).toBeUndefined();
     });
   });
 
+  describe("migrateLicenseKeySetting", () => {
+    it("should move a key from the setting into storage", async () => {
+      const context = createContext();
+      licenseKeySetting = "SETTING-KEY";
+
+      await migrateLicenseKeySetting(context);
+
+      expect(await getStoredLicense(context)).toBe("SETTING-KEY");
+      expect(licenseKeySetting).toBe("");
+    });
+
+    it("should keep a stored key over the setting", async () => {
+      const context = createContext();
+      await storeLicenseKey(context, "STORED-KEY");
+      licenseKeySetting = "SETTING-KEY";
+
+      await migrateLicenseKeySetting(context);
+
+      expect(await getStoredLicense(context)).toBe("STORED-KEY");
+      expect(licenseKeySetting).toBe("");
+    });
+
+    it("should only run once", async () => {
+      const context = createContext();
+      await migrateLicenseKeySetting(context);
+      licenseKeySetting = "SETTING-KEY";
+
+      await migrateLicenseKeySetting(context);
+
+      expect(await getStoredLicense(context)).toBeUndefined();
+      expect(licenseKeySetting).toBe("SETTING-KEY");
+    });
+  });
+
   describe("isLicenseExpired", () => {
     it("should return true for expired license", async () => {
-      const pastDate = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(); // 1 day ago
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve("some-key");
-            case "license-expires":
-              return Promise.resolve(pastDate);
-            case "license-last-validated":
-              return Promise.resolve(pastDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
-      );
+      const context = createContext();
+      const pastDate = new Date(Date.now() - DAY_MS).toISOString(); // 1 day ago
+      await activateLicense(context, "some-key", pastDate, null);
 
-      const result = await isLicenseExpired(mockContext);
+      const result = await isLicenseExpired(context);
 
       expect(result).toBe(true);
     });
 
-    it("should return false for valid license", async () => {
-      const futureDate = new Date(
-        Date.now() + 24 * 60 * 60 * 1000,
-      ).toISOString(); // 1 day from now
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve("some-key");
-            case "license-expires":
-              return Promise.resolve(futureDate);
-            case "license-last-validated":
-              return Promise.resolve(futureDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
+    it("should ignore a record re-sealed from the contents of the storage", async () => {
+      const context = createContext();
+      await activateLicense(context, "some-key", futureDate);
+      const storage = getStorage(context);
+      const { machineId } = JSON.parse(
+        (await storage.getItem("machine-fingerprint")) as string,
+      );
+      await storage.setItem(
+        "license-record",
+        sealLicenseRecord(
+          "some-key",
+          {
+            expiresOn: futureDate,
+            lastValidated: new Date().toISOString(),
+            machineId,
+            token: "signed-token",
+          },
+          `publisher.extension:${machineId}`,
+        ),
+      );
+
+      expect(await isLicenseExpired(context)).toBe(true);
+    });
+
+    it("should keep the record when the machine is renamed", async () => {
+      const context = createContext();
+      await activateLicense(context, "some-key", futureDate);
+
+      (os.hostname as jest.Mock).mockReturnValue("renamed-workstation");
+
+      expect(await isLicenseExpired(context)).toBe(false);
+    });
+
+    it("should keep the record across contexts sharing file storage", async () => {
+      const directory = fs.mkdtempSync(
+        path.join(os.tmpdir(), "code-checkout-"),
       );
+      const storage = {
+        type: "file" as const,
+        path: path.join(directory, "license.json"),
+      };
+      try {
+        const context = createContext();
+        setCheckoutConfig(context, { storage });
+        await activateLicense(context, "some-key", futureDate);
+
+        const restarted = createContext();
+        setCheckoutConfig(restarted, { storage });
+
+        expect(await isLicenseExpired(restarted)).toBe(false);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
 
-      const result = await isLicenseExpired(mockContext);
+    it("should return true when no license is stored", async () => {
+      expect(await isLicenseExpired(createContext())).toBe(true);
+    });
+
+    it("should return false for valid license", async () => {
+      const context = createContext();
+      await activateLicense(context, "some-key", futureDate);
+
+      const result = await isLicenseExpired(context);
 
       expect(result).toBe(false);
     });
@@ -259,49 +513,21 @@ describe("License Validator", () => {
 
   describe("needsOnlineValidation", () => {
     it("should return true when last validation is beyond grace period", async () => {
-      const oldDate = new Date(
-        Date.now() - 8 * 24 * 60 * 60 * 1000,
-      ).toISOString(); // 8 days ago
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve("some-key");
-            case "license-expires":
-              return Promise.resolve(oldDate);
-            case "license-last-validated":
-              return Promise.resolve(oldDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
-      );
+      const context = createContext();
+      await activateLicense(context, "some-key", futureDate);
+      advanceDays(8); // 8 days later
 
-      const result = await needsOnlineValidation(mockContext);
+      const result = await needsOnlineValidation(context);
 
       expect(result).toBe(true);
     });
 
     it("should return false when last validation is within grace period", async () => {
-      const recentDate = new Date(
-        Date.now() - 1 * 24 * 60 * 60 * 1000,
-      ).toISOString(); // 1 day ago
-      (mockContext.secrets.get as jest.Mock).mockImplementation(
-        (key: string) => {
-          switch (key) {
-            case "license-key":
-              return Promise.resolve("some-key");
-            case "license-expires":
-              return Promise.resolve(recentDate);
-            case "license-last-validated":
-              return Promise.resolve(recentDate);
-            default:
-              return Promise.resolve(null);
-          }
-        },
-      );
+      const context = createContext();
+      await activateLicense(context, "some-key", futureDate);
+      advanceDays(1); // 1 day later
 
-      const result = await needsOnlineValidation(mockContext);
+      const result = await needsOnlineValidation(context);
 
       expect(result).toBe(false);
     });
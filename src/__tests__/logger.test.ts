@@ -0,0 +1,101 @@
+import {
+  configureLogger,
+  formatLogLine,
+  logger,
+  redactString,
+  redactValue,
+  registerSecret,
+} from "../private/logger";
+
+describe("Logger", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    configureLogger({});
+  });
+
+  describe("redaction", () => {
+    it("should redact registered license keys wherever they appear", () => {
+      registerSecret("LM0ABCDE-XYZ123");
+
+      expect(redactString("activating LM0ABCDE-XYZ123 now")).toBe(
+        "activating *** now",
+      );
+    });
+
+    it("should redact tokens, bearer headers and keys in URLs", () => {
+      const line = redactString(
+        "token eyJhbGciOiJFZERTQSJ9.eyJleHAiOjF9.c2lnbmF0dXJl Bearer abc123 https://example.com/checkout?licenseKey=SECRET&successUrl=x%3Fkey%3DSECRET",
+      );
+
+      expect(line).not.toContain("eyJ");
+      expect(line).not.toContain("abc123");
+      expect(line).not.toContain("SECRET");
+      expect(line).toContain("Bearer ***");
+    });
+
+    it("should redact keys in double encoded URLs", () => {
+      const line = redactString(
+        "https://example.com/checkout?successUrl=https%253A%252F%252Fexample.com%252Factivate%253Fkey%253DSECRET%2526name%253DExtension",
+      );
+
+      expect(line).not.toContain("SECRET");
+      expect(line).toContain("Extension");
+    });
+
+    it("should redact sensitive object keys", () => {
+      expect(
+        redactValue({
+          licenseKey: "some-key",
+          body: { token: "some-token", machineId: "machine" },
+        }),
+      ).toEqual({
+        licenseKey: "***",
+        body: { token: "***", machineId: "machine" },
+      });
+    });
+
+    it("should redact objects passed as arguments", () => {
+      const line = formatLogLine("debug", "[getLicense] Result:", [
+        { licenseKey: "some-key", isValid: true },
+      ]);
+
+      expect(line).not.toContain("some-key");
+      expect(line).toContain("isValid: true");
+    });
+  });
+
+  describe("levels", () => {
+    it("should only log warnings and errors by default", () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => {});
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      logger.debug("debug message");
+      logger.info("info message");
+      logger.warn("warn message");
+
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should write to the output channel", () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      const outputChannel = { appendLine: jest.fn() };
+      configureLogger({ level: "debug", outputChannel });
+
+      logger.debug("debug message");
+
+      expect(outputChannel.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining("[debug] debug message"),
+      );
+    });
+
+    it("should log nothing when turned off", () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      configureLogger({ level: "off" });
+
+      logger.error("error message");
+
+      expect(error).not.toHaveBeenCalled();
+    });
+  });
+});
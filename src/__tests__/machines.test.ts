@@ -0,0 +1,90 @@
+import type * as vscode from "vscode";
+import { deactivateMachine, listActivatedMachines } from "../private/machines";
+import { apiRequest } from "../private/api-client";
+
+jest.mock("../private/api-client", () => ({ apiRequest: jest.fn() }));
+
+const context = {
+  extension: { id: "publisher.extension" },
+} as unknown as vscode.ExtensionContext;
+
+const mockResponse = (body: object | null, status = 200) => {
+  (apiRequest as jest.Mock).mockResolvedValue(
+    new Response(body && JSON.stringify(body), { status }),
+  );
+};
+
+describe("Machines", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("listActivatedMachines", () => {
+    it("should flag the current machine", async () => {
+      mockResponse({
+        machines: [
+          { machineId: "other-machine", name: "Laptop" },
+          {
+            machineId: "this-machine",
+            name: "Workstation",
+            lastSeen: "2025-05-01T00:00:00.000Z",
+          },
+        ],
+      });
+
+      const machines = await listActivatedMachines(
+        context,
+        "LICENSE-KEY",
+        "this-machine",
+      );
+
+      expect(machines).toEqual([
+        {
+          machineId: "other-machine",
+          name: "Laptop",
+          lastSeen: undefined,
+          isCurrent: false,
+        },
+        {
+          machineId: "this-machine",
+          name: "Workstation",
+          lastSeen: "2025-05-01T00:00:00.000Z",
+          isCurrent: true,
+        },
+      ]);
+      expect(apiRequest).toHaveBeenCalledWith(context, "/licenses/machines", {
+        headers: { Authorization: "Bearer LICENSE-KEY" },
+      });
+    });
+
+    it("should report an invalid license key", async () => {
+      mockResponse(null, 401);
+
+      await expect(
+        listActivatedMachines(context, "LICENSE-KEY", "this-machine"),
+      ).rejects.toThrow("Invalid license key");
+    });
+  });
+
+  describe("deactivateMachine", () => {
+    it("should release the seat of the machine", async () => {
+      mockResponse(null, 204);
+
+      await deactivateMachine(context, "LICENSE-KEY", "machine/id");
+
+      expect(apiRequest).toHaveBeenCalledWith(
+        context,
+        "/licenses/machines/machine%2Fid",
+        expect.objectContaining({ method: "DELETE" }),
+      );
+    });
+
+    it("should throw when the server fails", async () => {
+      mockResponse({ message: "Unavailable" }, 500);
+
+      await expect(
+        deactivateMachine(context, "LICENSE-KEY", "machine-id"),
+      ).rejects.toThrow("Failed to deactivate machine: 500");
+    });
+  });
+});
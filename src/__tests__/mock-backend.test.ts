@@ -0,0 +1,86 @@
+import type * as vscode from "vscode";
+import { mockApiRequest, MockBackendOptions } from "../private/mock-backend";
+import { ApiUnreachableError } from "../private/api-client";
+import { verifyLicenseTokenSignature } from "../private/license-token";
+import { setCheckoutConfig } from "../private/config";
+
+const createContext = () => {
+  const context = {
+    extension: { id: "publisher.extension" },
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+const validate = (
+  context: vscode.ExtensionContext,
+  mock: MockBackendOptions,
+  timeoutMs?: number,
+) =>
+  mockApiRequest(context, mock, "/validate", {
+    method: "POST",
+    headers: { Authorization: "Bearer LICENSE-KEY" },
+    body: { extensionId: "publisher.extension", machineId: "machine-id" },
+    timeoutMs,
+  });
+
+describe("Mock Backend", () => {
+  it("should issue a verifiable token for valid licenses", async () => {
+    const response = await validate(createContext(), { tier: "pro" });
+    const body = await response.json();
+
+    expect(body.isValid).toBe(true);
+    expect(verifyLicenseTokenSignature(body.token)).toMatchObject({
+      isValid: true,
+      claims: { licenseKey: "LICENSE-KEY", tier: "pro" },
+    });
+  });
+
+  it("should fail as unreachable in the offline scenario", async () => {
+    await expect(
+      validate(createContext(), { scenario: "offline" }),
+    ).rejects.toBeInstanceOf(ApiUnreachableError);
+  });
+
+  it("should fail as unreachable after the timeout in the timeout scenario", async () => {
+    const startedAt = Date.now();
+
+    await expect(
+      validate(createContext(), { scenario: "timeout" }, 50),
+    ).rejects.toThrow("timed out after 50ms");
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it("should answer with 500 in the server-error scenario", async () => {
+    const response = await validate(createContext(), {
+      scenario: "server-error",
+    });
+
+    expect(response.status).toBe(500);
+  });
+
+  it("should use a script of scenarios and repeat its last entry", async () => {
+    const context = createContext();
+    const mock: MockBackendOptions = { scenario: ["invalid", "valid"] };
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await validate(context, mock)).status);
+    }
+
+    expect(statuses).toEqual([401, 200, 200]);
+  });
+
+  it("should accept analytics without using up the script", async () => {
+    const context = createContext();
+    const mock: MockBackendOptions = { scenario: ["invalid", "valid"] };
+
+    const analytics = await mockApiRequest(context, mock, "/analytics/events", {
+      method: "POST",
+      body: { type: "funnel", step: "prompt-shown" },
+    });
+
+    expect(analytics.status).toBe(204);
+    expect((await validate(context, mock)).status).toBe(401);
+  });
+});
@@ -0,0 +1,113 @@
+import * as crypto from "crypto";
+import type * as vscode from "vscode";
+import {
+  createOfflineActivationRequest,
+  verifyOfflineActivationResponse,
+} from "../private/offline-activation";
+import { trustLicensePublicKey } from "../private/license-token";
+import { setCheckoutConfig } from "../private/config";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+trustLicensePublicKey(
+  "offline-test-key",
+  publicKey.export({ type: "spki", format: "pem" }).toString(),
+);
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signToken = (claims: object, key = privateKey) => {
+  const signingInput = `${encode({ alg: "EdDSA", kid: "offline-test-key" })}.${encode(claims)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), key);
+  return `${signingInput}.${signature.toString("base64url")}`;
+};
+
+const createContext = () => {
+  const context = {
+    extension: { id: "publisher.extension" },
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+/**
+ * Creates a request and the response file the API would return for it
+ */
+const createResponse = async (
+  context: vscode.ExtensionContext,
+  claims: object = {},
+  key = privateKey,
+) => {
+  const request = await createOfflineActivationRequest(context, "LICENSE-KEY");
+  const token = signToken(
+    {
+      licenseKey: request.licenseKey,
+      extensionId: request.extensionId,
+      machineId: request.machineId,
+      exp: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+      nonce: request.nonce,
+      offline: true,
+      ...claims,
+    },
+    key,
+  );
+  return JSON.stringify({ token });
+};
+
+describe("Offline Activation", () => {
+  it("should accept a signed response to the pending request", async () => {
+    const context = createContext();
+    const contents = await createResponse(context);
+
+    const activation = await verifyOfflineActivationResponse(context, contents);
+
+    expect(activation.licenseKey).toBe("LICENSE-KEY");
+    expect(activation.claims.offline).toBe(true);
+  });
+
+  it("should reject a response to an earlier request", async () => {
+    const context = createContext();
+    const contents = await createResponse(context);
+    await createOfflineActivationRequest(context, "LICENSE-KEY");
+
+    await expect(
+      verifyOfflineActivationResponse(context, contents),
+    ).rejects.toThrow("does not belong to the latest activation request");
+  });
+
+  it("should reject a response signed with another key", async () => {
+    const context = createContext();
+    const { privateKey: otherKey } = crypto.generateKeyPairSync("ed25519");
+    const contents = await createResponse(context, {}, otherKey);
+
+    await expect(
+      verifyOfflineActivationResponse(context, contents),
+    ).rejects.toThrow("signature is invalid");
+  });
+
+  it("should reject a response for another machine", async () => {
+    const context = createContext();
+    const contents = await createResponse(context, {
+      machineId: "other-machine",
+    });
+
+    await expect(
+      verifyOfflineActivationResponse(context, contents),
+    ).rejects.toThrow("for a different machine");
+  });
+
+  it("should reject a response without a pending request", async () => {
+    await expect(
+      verifyOfflineActivationResponse(createContext(), "{}"),
+    ).rejects.toThrow("No offline activation request is pending");
+  });
+
+  it("should reject a response file that isn't JSON", async () => {
+    const context = createContext();
+    await createOfflineActivationRequest(context, "LICENSE-KEY");
+
+    await expect(
+      verifyOfflineActivationResponse(context, "not json"),
+    ).rejects.toThrow("not valid JSON");
+  });
+});
@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+import { setCheckoutConfig } from "../private/config";
+import {
+  consumeQuota,
+  getNextPeriodStart,
+  getPeriodStart,
+  getQuotaUsage,
+  QuotaOptions,
+} from "../private/quota";
+
+const createContext = () => {
+  const context = {} as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory" });
+  return context;
+};
+
+const quota: QuotaOptions = { id: "ai-refactor", limit: 2, period: "day" };
+
+describe("Quota", () => {
+  describe("periods", () => {
+    it("should start days and months at local midnight", () => {
+      const date = new Date(2025, 4, 17, 15, 30);
+
+      expect(getPeriodStart("day", date)).toEqual(new Date(2025, 4, 17));
+      expect(getPeriodStart("month", date)).toEqual(new Date(2025, 4, 1));
+    });
+
+    it("should roll over into the next month and year", () => {
+      expect(getNextPeriodStart("day", new Date(2025, 0, 31))).toEqual(
+        new Date(2025, 1, 1),
+      );
+      expect(getNextPeriodStart("month", new Date(2025, 11, 1))).toEqual(
+        new Date(2026, 0, 1),
+      );
+    });
+  });
+
+  describe("consumeQuota", () => {
+    it("should allow uses up to the limit", async () => {
+      const context = createContext();
+      const now = new Date(2025, 4, 17, 9);
+
+      expect((await consumeQuota(context, quota, now))?.remaining).toBe(1);
+      expect((await consumeQuota(context, quota, now))?.remaining).toBe(0);
+      expect(await consumeQuota(context, quota, now)).toBeNull();
+    });
+
+    it("should not hand out the last use twice to concurrent calls", async () => {
+      const context = createContext();
+      const now = new Date(2025, 4, 17, 9);
+
+      const results = await Promise.all([
+        consumeQuota(context, quota, now),
+        consumeQuota(context, quota, now),
+        consumeQuota(context, quota, now),
+      ]);
+
+      expect(results.filter((usage) => usage !== null)).toHaveLength(2);
+    });
+
+    it("should reset the counter in the next period", async () => {
+      const context = createContext();
+      await consumeQuota(context, quota, new Date(2025, 4, 17, 9));
+      await consumeQuota(context, quota, new Date(2025, 4, 17, 10));
+
+      const usage = await getQuotaUsage(
+        context,
+        quota,
+        new Date(2025, 4, 18, 9),
+      );
+
+      expect(usage.used).toBe(0);
+      expect(usage.remaining).toBe(2);
+      expect(usage.resetsOn).toBe(new Date(2025, 4, 19).toISOString());
+    });
+  });
+});
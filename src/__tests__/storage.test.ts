@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  createStorage,
+  JsonFileStorage,
+  MementoStorage,
+  MemoryStorage,
+  SecretStorageAdapter,
+} from "../private/storage";
+
+describe("Storage", () => {
+  describe("MemoryStorage", () => {
+    it("should store, read and remove items", async () => {
+      const storage = new MemoryStorage();
+
+      await storage.setItem("license-expires", "2030-01-01");
+      expect(await storage.getItem("license-expires")).toBe("2030-01-01");
+
+      await storage.removeItem("license-expires");
+      expect(await storage.getItem("license-expires")).toBeNull();
+    });
+  });
+
+  describe("JsonFileStorage", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "code-checkout-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should return null when the file does not exist", async () => {
+      const storage = new JsonFileStorage(path.join(directory, "license.json"));
+
+      expect(await storage.getItem("license-expires")).toBeNull();
+    });
+
+    it("should persist items across instances", async () => {
+      const filePath = path.join(directory, "nested", "license.json");
+      await new JsonFileStorage(filePath).setItem("license-token", "token");
+
+      const storage = new JsonFileStorage(filePath);
+
+      expect(await storage.getItem("license-token")).toBe("token");
+    });
+
+    it("should not lose concurrent writes", async () => {
+      const storage = new JsonFileStorage(path.join(directory, "license.json"));
+
+      await Promise.all([
+        storage.setItem("license-expires", "2030-01-01"),
+        storage.setItem("license-machine-id", "machine-id"),
+        storage.setItem("license-token", "token"),
+      ]);
+
+      expect(await storage.getItem("license-expires")).toBe("2030-01-01");
+      expect(await storage.getItem("license-machine-id")).toBe("machine-id");
+      expect(await storage.getItem("license-token")).toBe("token");
+    });
+  });
+
+  describe("createStorage", () => {
+    const mockContext = {
+      secrets: { get: jest.fn(), store: jest.fn(), delete: jest.fn() },
+      globalState: { get: jest.fn(), update: jest.fn() },
+    } as unknown as vscode.ExtensionContext;
+
+    it("should default to SecretStorage", () => {
+      expect(createStorage(mockContext)).toBeInstanceOf(SecretStorageAdapter);
+    });
+
+    it("should create the selected backend", () => {
+      expect(createStorage(mockContext, "globalState")).toBeInstanceOf(
+        MementoStorage,
+      );
+      expect(createStorage(mockContext, "memory")).toBeInstanceOf(
+        MemoryStorage,
+      );
+      expect(
+        createStorage(mockContext, { type: "file", path: "license.json" }),
+      ).toBeInstanceOf(JsonFileStorage);
+    });
+
+    it("should use a custom storage as is", () => {
+      const custom = new MemoryStorage();
+
+      expect(createStorage(mockContext, custom)).toBe(custom);
+    });
+
+    it("should map missing secrets to null", async () => {
+      (mockContext.secrets.get as jest.Mock).mockResolvedValue(undefined);
+
+      const storage = createStorage(mockContext);
+
+      expect(await storage.getItem("license-token")).toBeNull();
+    });
+  });
+});
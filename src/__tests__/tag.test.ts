@@ -0,0 +1,73 @@
+import type * as vscode from "vscode";
+import { getLicense } from "../public/tag";
+import { setCheckoutConfig } from "../private/config";
+import { MemoryStorage } from "../private/storage";
+
+jest.mock(
+  "vscode",
+  () => ({
+    env: { machineId: "machine-id", isTelemetryEnabled: false },
+    window: {
+      withProgress: (_options: unknown, task: () => unknown) => task(),
+    },
+    workspace: {
+      getConfiguration: () => ({
+        get: (_key: string, defaultValue: unknown) => defaultValue,
+      }),
+    },
+    ProgressLocation: { Notification: 15 },
+    ExtensionMode: { Production: 1 },
+  }),
+  { virtual: true },
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mock VSCode extension context, with storage whose reads can be counted
+const createContext = () => {
+  const context = {
+    extension: {
+      id: "publisher.extension",
+      packageJSON: { name: "extension" },
+    },
+    extensionMode: 1,
+    subscriptions: [],
+  } as unknown as vscode.ExtensionContext;
+  const storage = new MemoryStorage();
+  setCheckoutConfig(context, { storage });
+  return { context, storage };
+};
+
+describe("Tag", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getLicense", () => {
+    it("should reuse the result within the cache window", async () => {
+      const { context, storage } = createContext();
+      await storage.setItem("license-key", "LICENSE-KEY");
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            isValid: true,
+            expiresOn: new Date(Date.now() + 30 * DAY_MS).toISOString(),
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        ),
+      );
+      expect((await getLicense(context))?.isValid).toBe(true);
+      const getItem = jest.spyOn(storage, "getItem");
+
+      const license = await getLicense(context);
+
+      expect(license?.isValid).toBe(true);
+      expect(getItem).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import * as vscode from "vscode";
+import {
+  getOrStartTrialLicense,
+  getTrialLicense,
+  onDidChangeTrial,
+  recordTrialInvocation,
+  startTrialFromLink,
+  TrialOptions,
+} from "../private/trial";
+import { apiRequest, ApiUnreachableError } from "../private/api-client";
+import { setCheckoutConfig } from "../private/config";
+
+jest.mock(
+  "vscode",
+  () => ({
+    env: { machineId: "machine-id", isTelemetryEnabled: false },
+    window: { showInformationMessage: jest.fn() },
+  }),
+  { virtual: true },
+);
+jest.mock("../private/api-client", () => ({
+  ...jest.requireActual("../private/api-client"),
+  apiRequest: jest.fn(),
+}));
+
+const showInformationMessage = vscode.window
+  .showInformationMessage as jest.Mock;
+
+// Mock VSCode extension context, with a 14 day trial by default
+const createContext = (trial: TrialOptions = { days: 14 }) => {
+  const context = {
+    extension: {
+      id: "publisher.extension",
+      packageJSON: { name: "extension", displayName: "Extension" },
+    },
+    subscriptions: [],
+  } as unknown as vscode.ExtensionContext;
+  setCheckoutConfig(context, { storage: "memory", trial });
+  return context;
+};
+
+describe("Trial", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (apiRequest as jest.Mock).mockRejectedValue(
+      new ApiUnreachableError("offline"),
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getOrStartTrialLicense", () => {
+    it("should start a trial on first use", async () => {
+      const context = createContext();
+
+      const trial = await getOrStartTrialLicense(context);
+
+      expect(trial).toMatchObject({
+        isValid: true,
+        isTrial: true,
+        trialDaysRemaining: 14,
+      });
+    });
+
+    it("should end the trial after its days", async () => {
+      const context = createContext();
+      await getOrStartTrialLicense(context);
+      jest
+        .spyOn(Date, "now")
+        .mockReturnValue(Date.now() + 15 * 24 * 60 * 60 * 1000);
+
+      const trial = await getTrialLicense(context);
+
+      expect(trial).toMatchObject({
+        isValid: false,
+        isExpired: true,
+        trialDaysRemaining: 0,
+      });
+    });
+
+    it("should end the trial once its invocations are used", async () => {
+      const context = createContext({ invocations: 2 });
+      await getOrStartTrialLicense(context);
+      await recordTrialInvocation(context);
+      expect((await getTrialLicense(context))?.trialInvocationsRemaining).toBe(
+        1,
+      );
+
+      await recordTrialInvocation(context);
+
+      expect(await getTrialLicense(context)).toMatchObject({
+        isValid: false,
+        trialInvocationsRemaining: 0,
+      });
+    });
+
+    it("should end a trial the server declined", async () => {
+      for (const status of [403, 409]) {
+        const context = createContext();
+        (apiRequest as jest.Mock).mockResolvedValue(
+          new Response(null, { status }),
+        );
+
+        const trial = await getOrStartTrialLicense(context);
+
+        expect(trial?.isValid).toBe(false);
+      }
+    });
+
+    it("should start a local trial when the server fails to answer", async () => {
+      for (const status of [404, 429, 500]) {
+        const context = createContext();
+        (apiRequest as jest.Mock).mockResolvedValue(
+          new Response(null, { status }),
+        );
+
+        const trial = await getOrStartTrialLicense(context);
+
+        expect(trial).toMatchObject({ isValid: true, trialDaysRemaining: 14 });
+      }
+    });
+
+    it("should notify listeners when the trial starts or is used", async () => {
+      const context = createContext({ invocations: 2 });
+      const listener = jest.fn();
+      const subscription = onDidChangeTrial(listener);
+
+      await getOrStartTrialLicense(context);
+      await recordTrialInvocation(context);
+      subscription.dispose();
+      await recordTrialInvocation(context);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith(context);
+    });
+
+    it("should report no trial when none is configured", async () => {
+      const context = createContext();
+      setCheckoutConfig(context, { storage: "memory" });
+
+      expect(await getOrStartTrialLicense(context)).toBeNull();
+    });
+  });
+
+  describe("startTrialFromLink", () => {
+    it("should not start the trial when the user declines", async () => {
+      const context = createContext();
+      showInformationMessage.mockResolvedValue(undefined);
+
+      await startTrialFromLink(context);
+
+      expect(showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining("Start your Extension trial"),
+        { modal: true },
+        "Start Trial",
+      );
+      expect(apiRequest).not.toHaveBeenCalled();
+      expect(await getTrialLicense(context)).toBeNull();
+    });
+
+    it("should start the trial when the user confirms", async () => {
+      const context = createContext();
+      showInformationMessage.mockResolvedValueOnce("Start Trial");
+
+      await startTrialFromLink(context);
+
+      expect(showInformationMessage).toHaveBeenLastCalledWith(
+        "Your Extension trial is active.",
+      );
+      expect((await getTrialLicense(context))?.trialDaysRemaining).toBe(14);
+    });
+
+    it("should not ask again once the trial has started", async () => {
+      const context = createContext();
+      showInformationMessage.mockResolvedValueOnce("Start Trial");
+      await startTrialFromLink(context);
+      showInformationMessage.mockClear();
+
+      await startTrialFromLink(context);
+
+      expect(showInformationMessage).toHaveBeenCalledTimes(1);
+      expect(showInformationMessage).toHaveBeenCalledWith(
+        "Your Extension trial is active.",
+      );
+    });
+  });
+});
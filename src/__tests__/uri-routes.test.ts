@@ -0,0 +1,52 @@
+import * as vscode from "vscode";
+import {
+  getUriRoute,
+  isCheckoutUriPath,
+  registerUriRoute,
+} from "../private/uri-routes";
+
+describe("URI Routes", () => {
+  it("should register and dispose a route", () => {
+    const context = {} as vscode.ExtensionContext;
+    const handler = jest.fn();
+
+    const disposable = registerUriRoute(context, "open-settings", handler);
+
+    expect(getUriRoute(context, "/open-settings")).toBe(handler);
+    expect(isCheckoutUriPath(context, "/open-settings")).toBe(true);
+
+    disposable.dispose();
+
+    expect(getUriRoute(context, "/open-settings")).toBeUndefined();
+    expect(isCheckoutUriPath(context, "/open-settings")).toBe(false);
+  });
+
+  it("should treat the built-in routes as code-checkout paths", () => {
+    const context = {} as vscode.ExtensionContext;
+
+    expect(isCheckoutUriPath(context, "/activate")).toBe(true);
+    expect(isCheckoutUriPath(context, "/open-license")).toBe(true);
+    expect(isCheckoutUriPath(context, "/callback")).toBe(false);
+  });
+
+  it("should reject built-in and duplicate routes", () => {
+    const context = {} as vscode.ExtensionContext;
+    registerUriRoute(context, "/open-settings", jest.fn());
+
+    expect(() => registerUriRoute(context, "/refresh", jest.fn())).toThrow(
+      "URI route /refresh is built into code-checkout",
+    );
+    expect(() =>
+      registerUriRoute(context, "/open-settings", jest.fn()),
+    ).toThrow("URI route /open-settings is already registered");
+  });
+
+  it("should keep routes separate per extension context", () => {
+    const context = {} as vscode.ExtensionContext;
+    registerUriRoute(context, "/open-settings", jest.fn());
+
+    expect(
+      getUriRoute({} as vscode.ExtensionContext, "/open-settings"),
+    ).toBeUndefined();
+  });
+});
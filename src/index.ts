@@ -6,8 +6,28 @@ import {
   CheckoutOptions,
   getLicense,
   LicenseData,
+  onDidChangeLicense,
+  hasEntitlement,
+  getQuotaUsage,
+  QuotaOptions,
+  QuotaUsage,
   getCheckoutUrl,
+  flushAnalytics,
+  registerUriRoute,
+  UriRouteHandler,
   CheckoutUrlOptions,
+  ValidationPolicy,
+  Storage,
+  StorageOption,
+  TierDefinition,
+  TrialOptions,
+  MockBackendOptions,
+  MockScenario,
+  LogLevel,
+  SecretStorageAdapter,
+  MementoStorage,
+  MemoryStorage,
+  JsonFileStorage,
 } from "./public";
 
 export {
@@ -18,6 +38,26 @@ export {
   CheckoutOptions,
   getLicense,
   LicenseData,
+  onDidChangeLicense,
+  hasEntitlement,
+  getQuotaUsage,
+  QuotaOptions,
+  QuotaUsage,
   getCheckoutUrl,
+  flushAnalytics,
+  registerUriRoute,
+  UriRouteHandler,
   CheckoutUrlOptions,
+  ValidationPolicy,
+  Storage,
+  StorageOption,
+  TierDefinition,
+  TrialOptions,
+  MockBackendOptions,
+  MockScenario,
+  LogLevel,
+  SecretStorageAdapter,
+  MementoStorage,
+  MemoryStorage,
+  JsonFileStorage,
 };
@@ -0,0 +1,297 @@
+import * as vscode from "vscode";
+import { apiRequest } from "./api-client";
+import { logger, redactString } from "./logger";
+
+const FLUSH_INTERVAL_MS = 60 * 1000;
+/** Queued events that trigger a flush before the next interval */
+const FLUSH_THRESHOLD = 50;
+/** Oldest events are dropped beyond this, so a long offline period can't grow the queue without bound */
+const MAX_QUEUED_EVENTS = 500;
+
+/** License state of the user when an event was recorded */
+export type LicenseState =
+  | "licensed"
+  | "trial"
+  | "expired"
+  | "invalid"
+  | "unlicensed";
+
+/** Steps from a license prompt to a paid license */
+export type FunnelStep =
+  | "prompt-shown"
+  | "cta-clicked"
+  | "checkout-opened"
+  | "activation-succeeded"
+  | "activation-failed"
+  | "license-revoked"
+  | "trial-started";
+
+interface BaseAnalyticsEvent {
+  extensionId: string;
+  timestamp: string;
+}
+
+/** A command run by the user */
+export interface CommandEvent extends BaseAnalyticsEvent {
+  type: "command";
+  commandId: string;
+  durationMs: number;
+  success: boolean;
+  /** Error message of a failed command, with license keys redacted */
+  error?: string;
+  licenseState: LicenseState;
+  hasValidLicense: boolean;
+}
+
+/** A step of the purchase and activation funnel */
+export interface FunnelEvent extends BaseAnalyticsEvent {
+  type: "funnel";
+  step: FunnelStep;
+  /** What led to the step, such as the reason a prompt was shown or how a license was activated */
+  source?: string;
+  /** Reason of a failed activation */
+  message?: string;
+}
+
+export type AnalyticsEvent = CommandEvent | FunnelEvent;
+
+// Contexts that have analytics enabled, so flushAnalytics can reach them at
+// deactivate without a context
+const activeContexts = new Set<vscode.ExtensionContext>();
+
+// Queue updates are chained per context so events tracked while the queue is
+// being sent aren't lost
+const pendingUpdates = new WeakMap<vscode.ExtensionContext, Promise<unknown>>();
+
+function updateQueue<T>(
+  context: vscode.ExtensionContext,
+  update: () => Promise<T>,
+): Promise<T> {
+  const previous = pendingUpdates.get(context) ?? Promise.resolve();
+  const result = previous.catch(() => undefined).then(update);
+  pendingUpdates.set(context, result);
+  return result;
+}
+
+// The queue is always kept in globalState, whatever storage is configured
+// for license data, so frequent writes don't go to SecretStorage or a file
+async function readQueue(
+  context: vscode.ExtensionContext,
+): Promise<AnalyticsEvent[]> {
+  return context.globalState.get<AnalyticsEvent[]>("analytics-queue") ?? [];
+}
+
+async function writeQueue(
+  context: vscode.ExtensionContext,
+  events: AnalyticsEvent[],
+): Promise<void> {
+  await context.globalState.update(
+    "analytics-queue",
+    events.length === 0 ? undefined : events.slice(-MAX_QUEUED_EVENTS),
+  );
+}
+
+/**
+ * Sends the queued events one at a time to the events endpoint, which takes
+ * a single event per request. Events stay queued when the server can't be
+ * reached and are sent on a later flush, even in a later session.
+ */
+function flushQueue(context: vscode.ExtensionContext): Promise<void> {
+  return updateQueue(context, async () => {
+    let events = await readQueue(context);
+    if (!vscode.env.isTelemetryEnabled) {
+      // Events queued before telemetry was disabled are never sent
+      if (events.length > 0) {
+        await writeQueue(context, []);
+      }
+      return;
+    }
+
+    while (events.length > 0) {
+      const [event] = events;
+      try {
+        const response = await apiRequest(context, "/analytics/events", {
+          method: "POST",
+          body: event,
+          timeoutMs: 5000,
+          retries: 0,
+        });
+        if (
+          !response.ok &&
+          (response.status >= 500 || response.status === 429)
+        ) {
+          logger.debug(
+            `Analytics server error (HTTP ${response.status}), keeping ${events.length} events for later`,
+          );
+          break;
+        }
+        if (!response.ok) {
+          // The server won't accept this event on a retry either
+          logger.debug(
+            `Analytics event rejected (HTTP ${response.status}), dropping it`,
+          );
+        }
+      } catch (error) {
+        logger.debug(
+          `Failed to send analytics, keeping ${events.length} events for later:`,
+          error,
+        );
+        break;
+      }
+
+      events = events.slice(1);
+      await writeQueue(context, events);
+    }
+  });
+}
+
+/**
+ * Starts the analytics queue for an extension. Events are only collected
+ * while both the extension and VS Code's telemetry setting allow it.
+ * @param context - The extension context
+ * @param enabled - Whether the extension allows analytics
+ */
+export function startAnalytics(
+  context: vscode.ExtensionContext,
+  enabled: boolean,
+): void {
+  if (!enabled) {
+    // Drop anything queued before the extension opted out
+    updateQueue(context, () => writeQueue(context, [])).catch((error) => {
+      logger.debug("Failed to clear analytics queue:", error);
+    });
+    return;
+  }
+
+  activeContexts.add(context);
+  const interval = setInterval(() => {
+    flushQueue(context).catch((error) => {
+      logger.debug("Failed to flush analytics:", error);
+    });
+  }, FLUSH_INTERVAL_MS);
+  context.subscriptions.push(
+    vscode.env.onDidChangeTelemetryEnabled((telemetryEnabled) => {
+      if (!telemetryEnabled) {
+        updateQueue(context, () => writeQueue(context, [])).catch((error) => {
+          logger.debug("Failed to clear analytics queue:", error);
+        });
+      }
+    }),
+    {
+      dispose: () => {
+        clearInterval(interval);
+        activeContexts.delete(context);
+      },
+    },
+  );
+
+  // Sends events left over from an earlier session
+  flushQueue(context).catch((error) => {
+    logger.debug("Failed to flush analytics:", error);
+  });
+}
+
+/**
+ * Checks whether events are currently recorded for an extension, so callers
+ * can skip collecting event details that would be discarded
+ * @param context - The extension context
+ */
+export function isAnalyticsEnabled(context: vscode.ExtensionContext): boolean {
+  return activeContexts.has(context) && vscode.env.isTelemetryEnabled;
+}
+
+/**
+ * Queues an analytics event. The event is persisted right away and sent
+ * with the next flush.
+ * @param context - The extension context
+ * @param event - The event to send
+ */
+function trackEvent(
+  context: vscode.ExtensionContext,
+  event: AnalyticsEvent,
+): void {
+  if (!isAnalyticsEnabled(context)) {
+    return;
+  }
+
+  updateQueue(context, async () => {
+    const events = [...(await readQueue(context)), event];
+    await writeQueue(context, events);
+    return events.length;
+  })
+    .then((queued) => {
+      if (queued >= FLUSH_THRESHOLD) {
+        return flushQueue(context);
+      }
+    })
+    .catch((error) => {
+      // Analytics must never affect the user experience
+      logger.debug("Failed to queue analytics event:", error);
+    });
+}
+
+/**
+ * Queues an event for a command run by the user
+ * @param context - The extension context
+ * @param event - The command, how long it ran and the error it threw, if any
+ * @param licenseState - The license state when the command was run
+ */
+export function trackCommandEvent(
+  context: vscode.ExtensionContext,
+  event: { commandId: string; durationMs: number; error?: unknown },
+  licenseState: LicenseState,
+): void {
+  trackEvent(context, {
+    type: "command",
+    extensionId: context.extension.id,
+    timestamp: new Date().toISOString(),
+    commandId: event.commandId,
+    durationMs: event.durationMs,
+    success: event.error === undefined,
+    error:
+      event.error === undefined
+        ? undefined
+        : redactString(
+            event.error instanceof Error
+              ? event.error.message
+              : String(event.error),
+          ),
+    licenseState,
+    hasValidLicense: licenseState === "licensed",
+  });
+}
+
+/**
+ * Queues a funnel event
+ * @param context - The extension context
+ * @param step - The funnel step the user reached
+ * @param details - What led to the step and, for failures, the reason
+ */
+export function trackFunnelEvent(
+  context: vscode.ExtensionContext,
+  step: FunnelStep,
+  details: { source?: string; message?: string } = {},
+): void {
+  trackEvent(context, {
+    type: "funnel",
+    extensionId: context.extension.id,
+    timestamp: new Date().toISOString(),
+    step,
+    source: details.source,
+    message: details.message && redactString(details.message),
+  });
+}
+
+/**
+ * Sends all queued analytics events. Call this from the extension's
+ * `deactivate` function so events aren't held back until the next session.
+ */
+export async function flushAnalytics(): Promise<void> {
+  await Promise.all(
+    [...activeContexts].map((context) =>
+      flushQueue(context).catch((error) => {
+        logger.debug("Failed to flush analytics:", error);
+      }),
+    ),
+  );
+}
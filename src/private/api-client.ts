@@ -0,0 +1,190 @@
+import * as vscode from "vscode";
+import { getCheckoutConfig } from "./config";
+import { mockApiRequest } from "./mock-backend";
+import { getApiUrl } from "./utils";
+
+/**
+ * Thrown when the server could not be reached at all, as opposed to the
+ * server answering with an error status
+ */
+export class ApiUnreachableError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiUnreachableError";
+  }
+}
+
+export interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Body to send, serialized as JSON */
+  body?: unknown;
+  /** Time allowed for each attempt before it is aborted */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs?: number;
+  /** Upper bound for any delay between attempts. Longer Retry-After delays end the retries */
+  maxDelayMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+/** Statuses that are worth retrying because the server may recover */
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now(),
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Performs a single attempt, aborting it once the timeout elapses
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Sends an HTTP request with a per-attempt timeout, retrying network errors
+ * and retryable statuses with exponential backoff. 429 and 503 responses
+ * honor the Retry-After header, and are returned without retrying when it
+ * asks for a longer wait than `maxDelayMs`.
+ * @returns The last response received, whatever its status
+ * @throws ApiUnreachableError if no response was received from the server
+ */
+export async function request(
+  url: string,
+  options: RequestOptions = {},
+): Promise<Response> {
+  const {
+    method = "GET",
+    headers = {},
+    body,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = options;
+
+  const init: RequestInit = {
+    method,
+    headers:
+      body === undefined
+        ? headers
+        : { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  };
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const isLastAttempt = attempt === retries;
+    let delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs);
+      if (isLastAttempt || !RETRYABLE_STATUSES.includes(response.status)) {
+        return response;
+      }
+
+      if (response.status === 429 || response.status === 503) {
+        const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+        if (retryAfter !== undefined && retryAfter > maxDelayMs) {
+          // Retrying sooner than the server asked would only be refused again
+          return response;
+        }
+        if (retryAfter !== undefined) {
+          delay = retryAfter;
+        }
+      }
+    } catch (error) {
+      lastError = error;
+      if (isLastAttempt) {
+        break;
+      }
+    }
+
+    await sleep(delay);
+  }
+
+  const reason =
+    lastError instanceof Error && lastError.name === "AbortError"
+      ? `timed out after ${timeoutMs}ms`
+      : lastError instanceof Error
+        ? lastError.message
+        : "unknown error";
+  // Leave out the query string, which may carry a license key
+  const [endpoint] = url.split("?");
+  throw new ApiUnreachableError(
+    `Could not reach ${endpoint}: ${reason}`,
+    lastError,
+  );
+}
+
+/**
+ * Sends a request to the code-checkout API, or to the mock backend when one
+ * is configured
+ * @param context - The extension context
+ * @param path - The path relative to the API URL, starting with a slash
+ * @param options - Request options
+ */
+export async function apiRequest(
+  context: vscode.ExtensionContext,
+  path: string,
+  options: RequestOptions = {},
+): Promise<Response> {
+  const { mockBackend } = getCheckoutConfig(context);
+  if (mockBackend) {
+    return mockApiRequest(context, mockBackend, path, options);
+  }
+
+  const url = await getApiUrl(context);
+  return request(`${url}${path}`, options);
+}
@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { getStorage } from "./storage";
+
+/** How long a checkout can take before its activation link stops working */
+const CHECKOUT_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CheckoutState {
+  nonce: string;
+  /** The license key generated for the checkout */
+  licenseKey: string;
+  expiresAt: string;
+}
+
+/**
+ * Creates a one-time nonce for a checkout. The activation link returned
+ * after the purchase carries it, so a link crafted elsewhere can't swap the
+ * user's license without the user noticing. Starting another checkout
+ * replaces the nonce.
+ * @param context - The extension context
+ * @param licenseKey - The license key generated for the checkout
+ * @returns The nonce to send as the `state` parameter of the activation link
+ */
+export async function createCheckoutState(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  now = Date.now(),
+): Promise<string> {
+  const state: CheckoutState = {
+    nonce: crypto.randomBytes(16).toString("base64url"),
+    licenseKey,
+    expiresAt: new Date(now + CHECKOUT_STATE_TTL_MS).toISOString(),
+  };
+  await getStorage(context).setItem("checkout-state", JSON.stringify(state));
+  return state.nonce;
+}
+
+/**
+ * Checks the nonce of an activation link against the pending checkout and
+ * uses it up when it matches
+ * @param context - The extension context
+ * @param licenseKey - The license key in the activation link
+ * @param nonce - The `state` parameter of the activation link
+ * @returns A reason the link was rejected, or undefined if it is valid
+ */
+export async function consumeCheckoutState(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  nonce: string | null,
+  now = Date.now(),
+): Promise<string | undefined> {
+  const storage = getStorage(context);
+  const value = await storage.getItem("checkout-state");
+  if (!value) {
+    return "no checkout is pending";
+  }
+  if (!nonce) {
+    return "the link has no state parameter";
+  }
+
+  const state: CheckoutState = JSON.parse(value);
+  const expected = Buffer.from(state.nonce);
+  const actual = Buffer.from(nonce);
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return "the state parameter doesn't match the pending checkout";
+  }
+  if (state.licenseKey !== licenseKey) {
+    return "the license key doesn't match the pending checkout";
+  }
+
+  // The nonce is used up whether or not it has expired
+  await storage.removeItem("checkout-state");
+  if (new Date(state.expiresAt).getTime() <= now) {
+    return "the pending checkout has expired";
+  }
+  return undefined;
+}
@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import { getStorage } from "./storage";
+
+/**
+ * How far the clock may go back before it counts as rolled back, to allow
+ * for small corrections such as time synchronization
+ */
+const ROLLBACK_TOLERANCE_MS = 10 * 60 * 1000;
+
+/** The watermark is only persisted when it moves by at least this much */
+const WATERMARK_RESOLUTION_MS = 60 * 1000;
+
+export interface TrustedTime {
+  /** The later of the system time and the highest time seen, in milliseconds */
+  now: number;
+  /** True when the system clock is behind the highest time seen */
+  rollbackDetected: boolean;
+}
+
+async function getWatermark(
+  context: vscode.ExtensionContext,
+): Promise<number | undefined> {
+  const value = await getStorage(context).getItem("time-watermark");
+  return value ? Number(value) : undefined;
+}
+
+async function setWatermark(
+  context: vscode.ExtensionContext,
+  value: number,
+): Promise<void> {
+  await getStorage(context).setItem("time-watermark", value.toString());
+}
+
+/**
+ * Gets the current time, never earlier than the highest time seen before, so
+ * setting the system clock back can't extend a license or grace period
+ * @param context - The extension context
+ * @param systemNow - The system time in milliseconds
+ * @param minimum - A time known to have passed, such as a watermark kept in
+ * tamper-proof storage, used when the stored watermark is missing or lower
+ */
+export async function getTrustedTime(
+  context: vscode.ExtensionContext,
+  systemNow = Date.now(),
+  minimum?: number,
+): Promise<TrustedTime> {
+  const stored = await getWatermark(context);
+  const watermark =
+    minimum !== undefined && (stored === undefined || stored < minimum)
+      ? minimum
+      : stored;
+  if (watermark === undefined || systemNow >= watermark) {
+    if (
+      watermark === undefined ||
+      systemNow - watermark >= WATERMARK_RESOLUTION_MS
+    ) {
+      await setWatermark(context, systemNow);
+    }
+    return { now: systemNow, rollbackDetected: false };
+  }
+
+  return {
+    now: watermark,
+    rollbackDetected: watermark - systemNow > ROLLBACK_TOLERANCE_MS,
+  };
+}
+
+/**
+ * Records the time reported by the license server. The server time replaces
+ * the watermark, so a clock that was once set too far ahead recovers after
+ * the next online validation.
+ * @param context - The extension context
+ * @param serverTime - The server time in milliseconds
+ */
+export async function recordServerTime(
+  context: vscode.ExtensionContext,
+  serverTime: number,
+): Promise<void> {
+  if (!isNaN(serverTime)) {
+    await setWatermark(context, serverTime);
+  }
+}
+
+/**
+ * Reads the server time from a validation response, preferring an explicit
+ * `serverTime` in the body over the HTTP Date header
+ * @returns The server time in milliseconds, or undefined if not reported
+ */
+export function getServerTime(
+  response: Response,
+  body?: { serverTime?: string | number },
+): number | undefined {
+  const value = body?.serverTime ?? response.headers.get("Date");
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const time = typeof value === "number" ? value : new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import type { StorageOption } from "./storage";
+import type { TierDefinition } from "./entitlements";
+import type { TrialOptions } from "./trial";
+import type { MockBackendOptions } from "./mock-backend";
+
+/**
+ * Policy controlling how often a license is validated online and how long it
+ * may be used offline
+ */
+export interface ValidationPolicy {
+  /** Days a license may be used offline after its last online validation */
+  gracePeriodDays?: number;
+  /** Hours between background online revalidations, 0 revalidates on every check */
+  revalidationIntervalHours?: number;
+  /** Date after which offline use is no longer accepted and every check goes online */
+  hardFailDate?: string | Date;
+  /** Seconds a license check result is reused from memory, 0 disables the cache */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Configuration supplied to `injectCheckoutCommands` that the private
+ * modules need wherever the validator runs
+ */
+export interface CheckoutConfig {
+  validation?: ValidationPolicy;
+  storage?: StorageOption;
+  tiers?: TierDefinition[];
+  trial?: TrialOptions;
+  apiUrl?: string;
+  webUrl?: string;
+  mockBackend?: MockBackendOptions;
+}
+
+export interface ResolvedValidationPolicy {
+  gracePeriodDays: number;
+  revalidationIntervalHours: number;
+  hardFailDate?: Date;
+  cacheTtlSeconds: number;
+}
+
+const DEFAULT_VALIDATION_POLICY: ResolvedValidationPolicy = {
+  gracePeriodDays: 3,
+  revalidationIntervalHours: 0,
+  cacheTtlSeconds: 60,
+};
+
+const configs = new WeakMap<vscode.ExtensionContext, CheckoutConfig>();
+
+/**
+ * Stores the checkout configuration for an extension context
+ */
+export function setCheckoutConfig(
+  context: vscode.ExtensionContext,
+  config: CheckoutConfig,
+): void {
+  configs.set(context, config);
+}
+
+/**
+ * Gets the checkout configuration for an extension context
+ */
+export function getCheckoutConfig(
+  context: vscode.ExtensionContext,
+): CheckoutConfig {
+  let config = configs.get(context);
+  if (!config) {
+    config = {};
+    configs.set(context, config);
+  }
+  return config;
+}
+
+/**
+ * Checks a validation policy when the extension is activated, so a mistake
+ * in it fails activation instead of every license check
+ * @throws If the hard-fail date isn't a valid date
+ */
+export function assertValidValidationPolicy(policy?: ValidationPolicy): void {
+  if (policy?.hardFailDate && isNaN(new Date(policy.hardFailDate).getTime())) {
+    throw new Error(`Invalid hardFailDate: ${policy.hardFailDate}`);
+  }
+}
+
+/**
+ * Gets the validation policy for an extension context, filling in defaults
+ */
+export function getValidationPolicy(
+  context: vscode.ExtensionContext,
+): ResolvedValidationPolicy {
+  const policy = getCheckoutConfig(context).validation ?? {};
+  const hardFailDate = policy.hardFailDate
+    ? new Date(policy.hardFailDate)
+    : undefined;
+
+  return {
+    gracePeriodDays:
+      policy.gracePeriodDays ?? DEFAULT_VALIDATION_POLICY.gracePeriodDays,
+    revalidationIntervalHours:
+      policy.revalidationIntervalHours ??
+      DEFAULT_VALIDATION_POLICY.revalidationIntervalHours,
+    hardFailDate,
+    cacheTtlSeconds:
+      policy.cacheTtlSeconds ?? DEFAULT_VALIDATION_POLICY.cacheTtlSeconds,
+  };
+}
+
+/**
+ * Checks whether the hard-fail date of the validation policy has passed
+ */
+export function isPastHardFailDate(
+  context: vscode.ExtensionContext,
+  now = Date.now(),
+): boolean {
+  const { hardFailDate } = getValidationPolicy(context);
+  return !!hardFailDate && hardFailDate.getTime() <= now;
+}
@@ -0,0 +1,116 @@
+/**
+ * A product tier and the entitlements it grants. Tiers are listed from lowest
+ * to highest, and each tier includes the entitlements of the tiers below it.
+ */
+export interface TierDefinition {
+  name: string;
+  entitlements?: string[];
+}
+
+/**
+ * The parts of a license that grant access to features
+ */
+export interface LicenseGrants {
+  tier?: string;
+  entitlements?: string[];
+}
+
+/**
+ * Requirements a tagged command places on the license
+ */
+export interface LicenseRequirements {
+  entitlement?: string;
+  minimumTier?: string;
+}
+
+/**
+ * A requirement that the license does not meet
+ */
+export interface MissingRequirement {
+  /** The entitlement that is missing, if the requirement is an entitlement */
+  entitlement?: string;
+  /** The lowest tier that satisfies the requirement, if one is known */
+  tier?: string;
+}
+
+function getTierIndex(tiers: TierDefinition[], tier?: string): number {
+  return tier ? tiers.findIndex((definition) => definition.name === tier) : -1;
+}
+
+/**
+ * Gets every entitlement a license grants, including those of its tier and
+ * the tiers below it
+ */
+export function getEffectiveEntitlements(
+  grants: LicenseGrants | null | undefined,
+  tiers: TierDefinition[] = [],
+): string[] {
+  if (!grants) {
+    return [];
+  }
+
+  const entitlements = new Set(grants.entitlements ?? []);
+  const tierIndex = getTierIndex(tiers, grants.tier);
+  for (const definition of tiers.slice(0, tierIndex + 1)) {
+    definition.entitlements?.forEach((entitlement) =>
+      entitlements.add(entitlement),
+    );
+  }
+  return [...entitlements];
+}
+
+/**
+ * Checks whether a license grants an entitlement
+ */
+export function hasEntitlement(
+  grants: LicenseGrants | null | undefined,
+  entitlement: string,
+  tiers: TierDefinition[] = [],
+): boolean {
+  return getEffectiveEntitlements(grants, tiers).includes(entitlement);
+}
+
+/**
+ * Checks whether a license is at or above a tier
+ */
+export function meetsMinimumTier(
+  grants: LicenseGrants | null | undefined,
+  minimumTier: string,
+  tiers: TierDefinition[] = [],
+): boolean {
+  if (!grants?.tier) {
+    return false;
+  }
+  if (grants.tier === minimumTier) {
+    return true;
+  }
+
+  const minimumIndex = getTierIndex(tiers, minimumTier);
+  return minimumIndex >= 0 && getTierIndex(tiers, grants.tier) >= minimumIndex;
+}
+
+/**
+ * Finds the first requirement a license does not meet
+ * @returns The missing requirement, or undefined if all are met
+ */
+export function getMissingRequirement(
+  grants: LicenseGrants | null | undefined,
+  requirements: LicenseRequirements,
+  tiers: TierDefinition[] = [],
+): MissingRequirement | undefined {
+  const { entitlement, minimumTier } = requirements;
+
+  if (minimumTier && !meetsMinimumTier(grants, minimumTier, tiers)) {
+    return { tier: minimumTier };
+  }
+
+  if (entitlement && !hasEntitlement(grants, entitlement, tiers)) {
+    // Suggest the lowest tier that grants the entitlement
+    const tier = tiers.find((definition) =>
+      definition.entitlements?.includes(entitlement),
+    );
+    return { entitlement, tier: tier?.name };
+  }
+
+  return undefined;
+}
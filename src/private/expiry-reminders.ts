@@ -0,0 +1,142 @@
+import * as vscode from "vscode";
+import { getEffectiveLicense } from "./license-validator";
+import { logger } from "./logger";
+import { getStorage } from "./storage";
+import { getWebUrl } from "./utils";
+
+export const DEFAULT_REMINDER_DAYS = [14, 3, 1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReminderState {
+  /** The reminder is not shown again before this date */
+  snoozedUntil?: string;
+  /** The reminder was acted on and is not shown again */
+  dismissed?: boolean;
+}
+
+/**
+ * Picks the most urgent reminder that is due for a license expiring in a
+ * number of days
+ * @param daysLeft - Whole days until the license expires
+ * @param reminderDays - Days before expiry at which reminders are shown
+ * @returns The reminder threshold in days, or undefined if none is due
+ */
+function getDueReminder(
+  daysLeft: number,
+  reminderDays: number[],
+): number | undefined {
+  return reminderDays
+    .filter((days) => daysLeft <= days)
+    .sort((a, b) => a - b)[0];
+}
+
+/**
+ * Describes when a license expires by calendar day, so an expiry later
+ * today isn't called tomorrow
+ */
+function describeExpiry(expiresAt: Date, now: Date): string {
+  const startOfDay = (date: Date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  // Rounded because days around a daylight saving change aren't 24 hours
+  const days = Math.round((startOfDay(expiresAt) - startOfDay(now)) / DAY_MS);
+  if (days <= 0) {
+    return "today";
+  }
+  return days === 1 ? "tomorrow" : `in ${days} days`;
+}
+
+async function getReminderStates(
+  context: vscode.ExtensionContext,
+): Promise<Record<string, ReminderState>> {
+  const value = await getStorage(context).getItem("expiry-reminders");
+  return value ? JSON.parse(value) : {};
+}
+
+/**
+ * Stores the state of a reminder, dropping reminders of earlier expiry dates
+ */
+async function setReminderState(
+  context: vscode.ExtensionContext,
+  expiresOn: string,
+  reminderId: string,
+  state: ReminderState,
+): Promise<void> {
+  const states = Object.fromEntries(
+    Object.entries(await getReminderStates(context)).filter(([id]) =>
+      id.startsWith(`${expiresOn}:`),
+    ),
+  );
+  await getStorage(context).setItem(
+    "expiry-reminders",
+    JSON.stringify({ ...states, [reminderId]: state }),
+  );
+}
+
+/**
+ * Shows a reminder when the license expires within one of the configured
+ * number of days. Each reminder can be snoozed until the next day and is
+ * tracked per expiry date, so renewing the license starts over.
+ * @param context - The extension context
+ * @param reminderDays - Days before expiry at which reminders are shown
+ */
+export async function showExpiryReminder(
+  context: vscode.ExtensionContext,
+  reminderDays: number[] = DEFAULT_REMINDER_DAYS,
+): Promise<void> {
+  const license = await getEffectiveLicense(context);
+  if (!license?.isValid || !license.expiresOn) {
+    return;
+  }
+
+  const daysLeft = Math.ceil(
+    (new Date(license.expiresOn).getTime() - Date.now()) / DAY_MS,
+  );
+  const reminder = getDueReminder(daysLeft, reminderDays);
+  if (reminder === undefined) {
+    return;
+  }
+
+  const reminderId = `${license.expiresOn}:${reminder}`;
+  const state = (await getReminderStates(context))[reminderId];
+  if (
+    state?.dismissed ||
+    (state?.snoozedUntil && new Date(state.snoozedUntil) > new Date())
+  ) {
+    return;
+  }
+
+  const name = context.extension.packageJSON.displayName;
+  const expiresAt = new Date(license.expiresOn);
+  const when = describeExpiry(expiresAt, new Date(Date.now()));
+  const date = expiresAt.toLocaleDateString();
+  const primaryAction = license.autoRenew ? "Manage Subscription" : "Renew";
+  const snoozeAction = "Remind Me Later";
+  const message = license.autoRenew
+    ? `Your ${name} subscription renews automatically ${when} (${date}). Make sure your payment details are up to date.`
+    : `Your ${name} license expires ${when} (${date}). Renew it to keep using paid features.`;
+
+  logger.info(`[expiryReminder] Showing ${reminder} day reminder`);
+  const result = await vscode.window.showInformationMessage(
+    message,
+    primaryAction,
+    snoozeAction,
+  );
+
+  if (result === primaryAction) {
+    await setReminderState(context, license.expiresOn, reminderId, {
+      dismissed: true,
+    });
+    const path = license.autoRenew ? "manage" : "renew";
+    await vscode.env.openExternal(
+      vscode.Uri.parse(
+        `${getWebUrl(context)}/${path}?id=${encodeURIComponent(context.extension.id)}`,
+      ),
+    );
+  } else {
+    // Closing the reminder snoozes it as well
+    await setReminderState(context, license.expiresOn, reminderId, {
+      snoozedUntil: new Date(Date.now() + DAY_MS).toISOString(),
+    });
+  }
+}
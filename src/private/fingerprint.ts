@@ -0,0 +1,140 @@
+import type * as vscode from "vscode";
+import * as os from "os";
+import * as crypto from "crypto";
+import { getVSCode } from "./host";
+import { getStorage } from "./storage";
+
+/**
+ * Version of the fingerprint scheme, bumped whenever the components or the
+ * way they are hashed change
+ */
+export const FINGERPRINT_VERSION = 1;
+
+/**
+ * Identifies a machine by hashes of several hardware and installation
+ * properties, so a single changed property doesn't make it a new machine
+ */
+export interface MachineFingerprint {
+  version: number;
+  /** Stable id of the machine, kept as long as most components match */
+  machineId: string;
+  /** Hash of each component by component name */
+  components: Record<string, string>;
+}
+
+/**
+ * Share of the stored component weight that must match the current
+ * components for the machine to be considered the same
+ */
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * Weight of each component when matching. The VS Code machine id outweighs
+ * the others combined, so a machine only matches when it has the same id or,
+ * for fingerprints without one, the same hostname and CPU. Components shared
+ * by most machines, such as the platform, don't count.
+ */
+const COMPONENT_WEIGHTS: Record<string, number> = {
+  vscodeMachineId: 3,
+  hostname: 1,
+  cpuModel: 1,
+};
+
+/**
+ * Collects the raw fingerprint components. Only values that survive restarts
+ * are used, session-scoped values would change the fingerprint every session.
+ */
+function collectComponents(): Record<string, string> {
+  const cpus = os.cpus();
+  return {
+    // Stable across VS Code restarts and updates
+    vscodeMachineId: getVSCode()?.env.machineId ?? "",
+    hostname: os.hostname(),
+    platform: os.platform(),
+    arch: os.arch(),
+    cpuModel: cpus[0]?.model.trim() || "",
+    cpuCount: cpus.length.toString(),
+    // Rounded so small differences in reported memory don't matter
+    totalMemoryGb: Math.round(os.totalmem() / 1024 ** 3).toString(),
+  };
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Hashes each component so the raw values never leave the machine
+ */
+export function hashComponents(
+  components: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(components).map(([name, value]) => [
+      name,
+      hash(`${name}:${value}`),
+    ]),
+  );
+}
+
+/**
+ * Checks whether most of the weight of a stored fingerprint's components
+ * matches the current component hashes
+ */
+export function isSameMachine(
+  stored: MachineFingerprint,
+  components: Record<string, string>,
+): boolean {
+  if (stored.version !== FINGERPRINT_VERSION) {
+    return false;
+  }
+
+  const names = Object.keys(stored.components).filter(
+    (name) => COMPONENT_WEIGHTS[name],
+  );
+  const total = names.reduce((sum, name) => sum + COMPONENT_WEIGHTS[name], 0);
+  const matched = names
+    .filter((name) => stored.components[name] === components[name])
+    .reduce((sum, name) => sum + COMPONENT_WEIGHTS[name], 0);
+  return total > 0 && matched / total > MATCH_THRESHOLD;
+}
+
+/**
+ * Gets the fingerprint of this machine. The machine id of the stored
+ * fingerprint is kept while most components still match, so upgrading memory
+ * or renaming the machine doesn't change it.
+ * @param context - The extension context
+ */
+export async function getMachineFingerprint(
+  context: vscode.ExtensionContext,
+): Promise<MachineFingerprint> {
+  const storage = getStorage(context);
+  const components = hashComponents(collectComponents());
+
+  const value = await storage.getItem("machine-fingerprint");
+  const stored: MachineFingerprint | null = value ? JSON.parse(value) : null;
+
+  const fingerprint: MachineFingerprint =
+    stored && isSameMachine(stored, components)
+      ? { ...stored, components }
+      : {
+          version: FINGERPRINT_VERSION,
+          machineId: hash(Object.values(components).join(":")),
+          components,
+        };
+
+  if (JSON.stringify(fingerprint) !== value) {
+    await storage.setItem("machine-fingerprint", JSON.stringify(fingerprint));
+  }
+  return fingerprint;
+}
+
+/**
+ * Gets the stable identifier of this machine
+ * @param context - The extension context
+ */
+export async function getMachineId(
+  context: vscode.ExtensionContext,
+): Promise<string> {
+  return (await getMachineFingerprint(context)).machineId;
+}
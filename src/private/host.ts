@@ -0,0 +1,19 @@
+import type * as vscodeApi from "vscode";
+
+let api: typeof vscodeApi | null | undefined;
+
+/**
+ * Gets the VS Code API, or undefined outside the extension host. The license
+ * checks also run in plain Node, such as in unit tests and build tools,
+ * where the `vscode` module doesn't exist.
+ */
+export function getVSCode(): typeof vscodeApi | undefined {
+  if (api === undefined) {
+    try {
+      api = require("vscode");
+    } catch {
+      api = null;
+    }
+  }
+  return api ?? undefined;
+}
@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import { logger } from "./logger";
+import { deactivateMachine } from "./machines";
+import { getMachineId } from "./fingerprint";
+import { getStoredLicense, removeStoredLicense } from "./license-validator";
+
+/**
+ * Revokes the stored license
+ * @returns True if the user confirmed and the license was revoked
+ */
+export async function revokeLicense(
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  // show a confirmation dialog
+  const result = await vscode.window.showInformationMessage(
+    "Are you sure you want to revoke your license?",
+    { modal: true },
+    "Revoke License",
+  );
+  if (result === "Revoke License") {
+    // Free the seat on the server so the license can be used elsewhere
+    let seatReleased = true;
+    const licenseKey = await getStoredLicense(context);
+    if (licenseKey) {
+      try {
+        await deactivateMachine(
+          context,
+          licenseKey,
+          await getMachineId(context),
+        );
+      } catch (error) {
+        logger.warn("Failed to release machine seat:", error);
+        seatReleased = false;
+      }
+    }
+
+    await removeStoredLicense(context);
+    await vscode.window.showInformationMessage(
+      seatReleased
+        ? "License revoked successfully!"
+        : "License revoked on this machine, but its seat could not be released on the server. Use Manage Activated Machines to release it later.",
+    );
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Releases this machine's seat on the server and clears the local license.
+ * Unlike revoking, the local license is kept if the server can't be reached.
+ * @returns True if the user confirmed and the machine was deactivated
+ */
+export async function deactivateThisMachine(
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  const licenseKey = await getStoredLicense(context);
+  if (!licenseKey) {
+    await vscode.window.showInformationMessage(
+      "No license is activated on this machine.",
+    );
+    return false;
+  }
+
+  const result = await vscode.window.showInformationMessage(
+    "Are you sure you want to deactivate this machine? Its seat will be released and the license removed from this machine.",
+    { modal: true },
+    "Deactivate Machine",
+  );
+  if (result !== "Deactivate Machine") {
+    return false;
+  }
+
+  await deactivateMachine(context, licenseKey, await getMachineId(context));
+  await removeStoredLicense(context);
+  await vscode.window.showInformationMessage(
+    "Machine deactivated successfully!",
+  );
+  return true;
+}
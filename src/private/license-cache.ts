@@ -0,0 +1,48 @@
+import * as vscode from "vscode";
+import type { LicenseData } from "../public/tag";
+import { getValidationPolicy } from "./config";
+
+interface CacheEntry {
+  value: LicenseData | null;
+  cachedAt: number;
+}
+
+const cache = new WeakMap<vscode.ExtensionContext, CacheEntry>();
+
+/**
+ * Gets the last license result if it is still within the cache window
+ * @returns An object holding the cached value, or undefined on a cache miss
+ */
+export function getCachedLicense(
+  context: vscode.ExtensionContext,
+): { value: LicenseData | null } | undefined {
+  const entry = cache.get(context);
+  if (!entry) {
+    return undefined;
+  }
+
+  const { cacheTtlSeconds } = getValidationPolicy(context);
+  if (Date.now() - entry.cachedAt >= cacheTtlSeconds * 1000) {
+    cache.delete(context);
+    return undefined;
+  }
+
+  return { value: entry.value };
+}
+
+/**
+ * Caches the license result for the cache window of the validation policy
+ */
+export function setCachedLicense(
+  context: vscode.ExtensionContext,
+  value: LicenseData | null,
+): void {
+  cache.set(context, { value, cachedAt: Date.now() });
+}
+
+/**
+ * Drops the cached license result so the next check reads storage again
+ */
+export function invalidateLicenseCache(context: vscode.ExtensionContext): void {
+  cache.delete(context);
+}
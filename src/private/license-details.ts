@@ -0,0 +1,290 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as os from "os";
+import type { LicenseData } from "../public/tag";
+import { getValidationPolicy } from "./config";
+import { getTrustedTime } from "./clock";
+import { FINGERPRINT_VERSION } from "./fingerprint";
+import { onDidChangeLicense } from "./license-events";
+import { getEffectiveLicense, validateLicense } from "./license-validator";
+import { logger } from "./logger";
+import { getApiUrl, getWebUrl } from "./utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const panels = new WeakMap<vscode.ExtensionContext, vscode.WebviewPanel>();
+
+/**
+ * Masks all but the first and last four characters of a license key
+ */
+function maskLicenseKey(licenseKey: string): string {
+  if (licenseKey.length <= 8) {
+    return "*".repeat(licenseKey.length);
+  }
+  return `${licenseKey.slice(0, 4)}${"*".repeat(licenseKey.length - 8)}${licenseKey.slice(-4)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(value: string | undefined): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+/**
+ * Describes how long the license can still be used without an online
+ * validation
+ * @param now - The trusted current time in milliseconds
+ */
+function getGracePeriodRemaining(
+  context: vscode.ExtensionContext,
+  license: LicenseData,
+  now: number,
+): string {
+  if (!license.lastValidated) {
+    return "None";
+  }
+
+  const days =
+    license.offlineGraceDaysRemaining ??
+    Math.max(
+      0,
+      Math.ceil(
+        (new Date(license.lastValidated).getTime() +
+          getValidationPolicy(context).gracePeriodDays * DAY_MS -
+          now) /
+          DAY_MS,
+      ),
+    );
+  return `${days} ${days === 1 ? "day" : "days"}`;
+}
+
+function getStatus(license: LicenseData | null): string {
+  if (!license) {
+    return "Unlicensed";
+  }
+  if (license.isExpired) {
+    return "Expired";
+  }
+  if (!license.isValid) {
+    return license.isOnlineValidationRequired
+      ? "Online validation required"
+      : "Invalid";
+  }
+  return "Licensed";
+}
+
+/**
+ * Collects diagnostics for support requests, without the license key
+ */
+async function getDiagnostics(
+  context: vscode.ExtensionContext,
+  license: LicenseData | null,
+): Promise<string> {
+  return JSON.stringify(
+    {
+      extension: context.extension.id,
+      extensionVersion: context.extension.packageJSON.version,
+      ide: `${vscode.env.appName} ${vscode.version}`,
+      platform: `${os.platform()} ${os.release()} ${os.arch()}`,
+      apiUrl: await getApiUrl(context),
+      fingerprintVersion: FINGERPRINT_VERSION,
+      status: getStatus(license),
+      license: license && {
+        ...license,
+        licenseKey: license.licenseKey
+          ? maskLicenseKey(license.licenseKey)
+          : undefined,
+      },
+    },
+    null,
+    2,
+  );
+}
+
+function renderRow(label: string, value: string | undefined): string {
+  return `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || "-")}</td></tr>`;
+}
+
+/**
+ * Renders the license details page
+ * @param now - The trusted current time in milliseconds
+ */
+function renderHtml(
+  context: vscode.ExtensionContext,
+  webview: vscode.Webview,
+  license: LicenseData | null,
+  now: number,
+): string {
+  const nonce = crypto.randomBytes(16).toString("base64");
+  const rows = license
+    ? [
+        renderRow("Status", getStatus(license)),
+        renderRow(
+          "License key",
+          license.licenseKey ? maskLicenseKey(license.licenseKey) : undefined,
+        ),
+        renderRow("Tier", license.tier),
+        renderRow("Entitlements", license.entitlements?.join(", ")),
+        renderRow("Expires", formatDate(license.expiresOn)),
+        renderRow("Last online validation", formatDate(license.lastValidated)),
+        renderRow(
+          "Offline grace period remaining",
+          getGracePeriodRemaining(context, license, now),
+        ),
+        renderRow("Machine id", license.machineId),
+      ]
+    : [renderRow("Status", getStatus(license))];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 1rem 2rem; }
+    table { border-collapse: collapse; margin: 1rem 0; }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 0.25rem 2rem 0.25rem 0; }
+    td { font-family: var(--vscode-editor-font-family); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 0.4rem 0.9rem; margin-right: 0.5rem; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    a { color: var(--vscode-textLink-foreground); }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(context.extension.packageJSON.displayName)} License</h1>
+  <table>${rows.join("")}</table>
+  <p><a href="#" data-command="manage">Manage subscription</a></p>
+  <p>
+    ${license ? `<button data-command="revalidate">Revalidate now</button>` : ""}
+    <button class="secondary" data-command="copyDiagnostics">Copy diagnostics</button>
+    ${license ? `<button class="secondary" data-command="revoke">Revoke</button>` : ""}
+  </p>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll("[data-command]").forEach((element) => {
+      element.addEventListener("click", (event) => {
+        event.preventDefault();
+        vscode.postMessage({ command: element.dataset.command });
+      });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Handles a button click in the license details page
+ */
+async function handleMessage(
+  context: vscode.ExtensionContext,
+  revokeCommandId: string,
+  command: string,
+): Promise<void> {
+  const license = await getEffectiveLicense(context);
+  switch (command) {
+    case "revalidate": {
+      if (!license?.licenseKey) {
+        return;
+      }
+      const licenseKey = license.licenseKey;
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Validating license...",
+          cancellable: false,
+        },
+        () => validateLicense(context, licenseKey),
+      );
+      // Messages aren't awaited so the panel updates without waiting for
+      // them to be dismissed
+      if (result.isValid) {
+        vscode.window.showInformationMessage("License validated successfully!");
+      } else {
+        vscode.window.showErrorMessage(
+          `License validation failed: ${result.message || "Invalid license"}`,
+        );
+      }
+      break;
+    }
+    case "copyDiagnostics":
+      await vscode.env.clipboard.writeText(
+        await getDiagnostics(context, license),
+      );
+      vscode.window.showInformationMessage(
+        "License diagnostics copied to the clipboard.",
+      );
+      break;
+    case "revoke":
+      await vscode.commands.executeCommand(revokeCommandId);
+      break;
+    case "manage":
+      await vscode.env.openExternal(
+        vscode.Uri.parse(`${getWebUrl(context)}/manage`),
+      );
+      break;
+  }
+}
+
+/**
+ * Opens a panel showing the details of the stored license, or reveals it
+ * if it is already open
+ * @param context - The extension context
+ * @param revokeCommandId - Id of the command that revokes the license
+ */
+export async function showLicenseDetails(
+  context: vscode.ExtensionContext,
+  revokeCommandId: string,
+): Promise<void> {
+  const existing = panels.get(context);
+  if (existing) {
+    existing.reveal();
+    return;
+  }
+
+  const panel = vscode.window.createWebviewPanel(
+    "codeCheckoutLicenseDetails",
+    `${context.extension.packageJSON.displayName} License`,
+    vscode.ViewColumn.Active,
+    { enableScripts: true },
+  );
+  panels.set(context, panel);
+
+  const render = async () => {
+    const license = await getEffectiveLicense(context);
+    // A clock set back must not show more grace period than is left
+    const { now } = await getTrustedTime(context);
+    panel.webview.html = renderHtml(context, panel.webview, license, now);
+  };
+
+  const subscriptions = [
+    onDidChangeLicense(render),
+    panel.webview.onDidReceiveMessage(async (message) => {
+      try {
+        await handleMessage(context, revokeCommandId, message.command);
+        await render();
+      } catch (error) {
+        logger.error("[licenseDetails] Action failed:", error);
+        await vscode.window.showErrorMessage(
+          `License action failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        );
+      }
+    }),
+  ];
+  panel.onDidDispose(() => {
+    panels.delete(context);
+    subscriptions.forEach((subscription) => subscription.dispose());
+  });
+
+  await render();
+}
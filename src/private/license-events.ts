@@ -0,0 +1,135 @@
+import type * as vscode from "vscode";
+import type { LicenseData } from "../public/tag";
+import { logger } from "./logger";
+
+type LicenseListener = (license: LicenseData | null) => unknown;
+
+const listeners = new Set<LicenseListener>();
+const states = new WeakMap<vscode.ExtensionContext, string>();
+const expiryTimers = new WeakMap<vscode.ExtensionContext, NodeJS.Timeout>();
+// Contexts whose subscriptions already clear the expiry timer on deactivate
+const disposableContexts = new WeakSet<vscode.ExtensionContext>();
+
+// setTimeout can't wait longer than this, later expiries are picked up by
+// the validations that happen in the meantime
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Fires whenever the effective license state changes, with the new license
+ * data or null when no license is stored
+ */
+export const onDidChangeLicense: vscode.Event<LicenseData | null> = (
+  listener,
+  thisArgs?,
+  disposables?,
+) => {
+  const bound: LicenseListener = (license) => listener.call(thisArgs, license);
+  listeners.add(bound);
+  const disposable = { dispose: () => listeners.delete(bound) };
+  disposables?.push(disposable);
+  return disposable;
+};
+
+/**
+ * Reduces license data to the fields that make up its effective state, so
+ * a revalidation that only bumps `lastValidated` doesn't count as a change
+ */
+function getStateSignature(license: LicenseData | null): string {
+  if (!license) {
+    return "null";
+  }
+
+  return JSON.stringify({
+    licenseKey: license.licenseKey,
+    isValid: license.isValid,
+    isExpired: license.isExpired,
+    expiresOn: license.expiresOn,
+    tier: license.tier,
+    entitlements: license.entitlements,
+    offlineGraceDaysRemaining: license.offlineGraceDaysRemaining,
+  });
+}
+
+/**
+ * Records the license state without firing, used at activation
+ */
+export function seedLicenseState(
+  context: vscode.ExtensionContext,
+  license: LicenseData | null,
+): void {
+  states.set(context, getStateSignature(license));
+}
+
+/**
+ * Records the license state and fires onDidChangeLicense if it changed
+ * @returns True if the event was fired
+ */
+export function updateLicenseState(
+  context: vscode.ExtensionContext,
+  license: LicenseData | null,
+): boolean {
+  const signature = getStateSignature(license);
+  if (states.get(context) === signature) {
+    return false;
+  }
+
+  states.set(context, signature);
+  for (const listener of listeners) {
+    try {
+      listener(license);
+    } catch (error) {
+      logger.error("onDidChangeLicense listener failed:", error);
+    }
+  }
+  return true;
+}
+
+function clearExpiryTimer(context: vscode.ExtensionContext): void {
+  const existing = expiryTimers.get(context);
+  if (existing) {
+    clearTimeout(existing);
+    expiryTimers.delete(context);
+  }
+}
+
+/**
+ * Schedules a callback for when the license expires, replacing any earlier
+ * schedule for the context. The schedule is cancelled when the extension is
+ * deactivated.
+ * @param expiresOn - The expiry date, or undefined to cancel the schedule
+ * @param onExpired - Called at the expiry, a rejected promise is logged
+ */
+export function scheduleExpiryCheck(
+  context: vscode.ExtensionContext,
+  expiresOn: string | undefined,
+  onExpired: () => Promise<unknown> | void,
+): void {
+  clearExpiryTimer(context);
+
+  if (!expiresOn) {
+    return;
+  }
+
+  const delay = new Date(expiresOn).getTime() - Date.now();
+  if (isNaN(delay) || delay > MAX_TIMER_MS) {
+    return;
+  }
+
+  if (!disposableContexts.has(context)) {
+    disposableContexts.add(context);
+    context.subscriptions.push({ dispose: () => clearExpiryTimer(context) });
+  }
+
+  const timer = setTimeout(
+    () => {
+      expiryTimers.delete(context);
+      Promise.resolve()
+        .then(onExpired)
+        .catch((error) => {
+          logger.error("License expiry check failed:", error);
+        });
+    },
+    Math.max(0, delay),
+  );
+  expiryTimers.set(context, timer);
+}
@@ -0,0 +1,87 @@
+import * as crypto from "crypto";
+
+/**
+ * License data cached on the machine between online validations
+ */
+export interface LicenseRecord {
+  expiresOn: string;
+  lastValidated: string;
+  machineId: string;
+  /** Signed license token issued by the server, required for offline use */
+  token?: string;
+  tier?: string;
+  entitlements?: string[];
+  /** Whether the subscription renews automatically */
+  autoRenew?: boolean;
+  /** Set while the license is used offline, until the next online validation */
+  validatedOffline?: boolean;
+  /**
+   * Highest time seen while the license was used, kept in the record so it
+   * can't be edited or removed without failing the integrity check
+   */
+  timeWatermark?: string;
+}
+
+interface SealedRecord {
+  /** The license key and record, serialized as JSON */
+  payload: string;
+  /** HMAC-SHA256 of the payload */
+  mac: string;
+}
+
+function computeMac(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+/**
+ * Serializes a license record with a MAC binding it to the license key and
+ * the secret, so edits to the stored value can be detected
+ * @param licenseKey - The license key the record belongs to
+ * @param record - The license record
+ * @param secret - Machine-specific secret the MAC is keyed with
+ */
+export function sealLicenseRecord(
+  licenseKey: string,
+  record: LicenseRecord,
+  secret: string,
+): string {
+  const payload = JSON.stringify({ licenseKey, record });
+  const sealed: SealedRecord = { payload, mac: computeMac(payload, secret) };
+  return JSON.stringify(sealed);
+}
+
+/**
+ * Reads a sealed license record
+ * @param licenseKey - The license key the record must belong to
+ * @param value - The stored value from `sealLicenseRecord`
+ * @param secret - Machine-specific secret the MAC is keyed with
+ * @returns The record, or null if it was modified, sealed with another
+ * secret or belongs to another license key
+ */
+export function openLicenseRecord(
+  licenseKey: string,
+  value: string,
+  secret: string,
+): LicenseRecord | null {
+  let sealed: SealedRecord;
+  try {
+    sealed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (typeof sealed?.payload !== "string" || typeof sealed.mac !== "string") {
+    return null;
+  }
+
+  const expected = Buffer.from(computeMac(sealed.payload, secret), "hex");
+  const actual = Buffer.from(sealed.mac, "hex");
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return null;
+  }
+
+  const payload = JSON.parse(sealed.payload);
+  return payload.licenseKey === licenseKey ? payload.record : null;
+}
@@ -0,0 +1,227 @@
+import * as crypto from "crypto";
+
+/**
+ * Public keys used to verify license tokens signed by the code-checkout API,
+ * indexed by the `kid` header of the token. These are compiled into the
+ * library so a token can be verified without a network connection.
+ *
+ * The API has not published its token signing key yet, so no key is embedded.
+ * Until it is, only tokens from servers whose key is trusted with
+ * `trustLicensePublicKey` can be verified, and licenses from other servers
+ * are validated online only.
+ */
+export const LICENSE_PUBLIC_KEYS: Record<string, string> = {};
+
+/**
+ * Keys trusted in addition to the embedded keys for the lifetime of the
+ * process, such as the ephemeral key of the mock backend
+ */
+const trustedPublicKeys: Record<string, string> = {};
+
+/**
+ * Trusts an additional public key for verifying license tokens until the
+ * process exits, such as the key of a self-hosted license server. Embedded
+ * keys can't be replaced.
+ * @param kid - Key id matching the `kid` header of the tokens
+ * @param publicKey - PEM encoded public key
+ */
+export function trustLicensePublicKey(kid: string, publicKey: string): void {
+  if (LICENSE_PUBLIC_KEYS[kid]) {
+    throw new Error(`License public key ${kid} is already embedded`);
+  }
+  try {
+    crypto.createPublicKey(publicKey);
+  } catch {
+    throw new Error(`License public key ${kid} is not a valid PEM public key`);
+  }
+  trustedPublicKeys[kid] = publicKey;
+}
+
+function getLicensePublicKeys(): Record<string, string> {
+  return { ...trustedPublicKeys, ...LICENSE_PUBLIC_KEYS };
+}
+
+/**
+ * Claims carried by a signed license token
+ */
+export interface LicenseTokenClaims {
+  licenseKey: string;
+  extensionId: string;
+  machineId: string;
+  /** Expiry of the license in seconds since the epoch */
+  exp: number;
+  /** Time the token was issued in seconds since the epoch */
+  iat?: number;
+  tier?: string;
+  entitlements?: string[];
+  /** Nonce of the offline activation request the token was issued for */
+  nonce?: string;
+  /** Set for licenses activated offline, which don't need online revalidation */
+  offline?: boolean;
+  /** Whether the subscription renews automatically */
+  autoRenew?: boolean;
+}
+
+/**
+ * Values a license token must be bound to in order to be accepted
+ */
+export interface LicenseTokenExpectations {
+  licenseKey: string;
+  extensionId: string;
+  machineId: string;
+}
+
+export interface LicenseTokenResult {
+  isValid: boolean;
+  message?: string;
+  claims?: LicenseTokenClaims;
+  /** Set when the token was signed with a key that is neither embedded nor trusted */
+  unknownKey?: boolean;
+}
+
+interface LicenseTokenHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+/**
+ * Node verification parameters for each supported JWS algorithm
+ */
+const ALGORITHMS: Record<
+  string,
+  { digest: string | null; dsaEncoding?: "ieee-p1363" }
+> = {
+  EdDSA: { digest: null },
+  ES256: { digest: "sha256", dsaEncoding: "ieee-p1363" },
+  RS256: { digest: "sha256" },
+};
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Checks the signature of a compact JWS license token and returns its claims
+ * @param token - The compact JWS token (`header.payload.signature`)
+ * @param publicKeys - Public keys indexed by key id, defaults to the embedded and trusted keys
+ * @returns The verified claims, or a message describing why verification failed
+ */
+export function verifyLicenseTokenSignature(
+  token: string,
+  publicKeys: Record<string, string> = getLicensePublicKeys(),
+): LicenseTokenResult {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return { isValid: false, message: "Malformed license token" };
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  let header: LicenseTokenHeader;
+  let claims: LicenseTokenClaims;
+  try {
+    header = decodeSegment<LicenseTokenHeader>(encodedHeader);
+    claims = decodeSegment<LicenseTokenClaims>(encodedPayload);
+  } catch {
+    return { isValid: false, message: "Malformed license token" };
+  }
+
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    return {
+      isValid: false,
+      message: `Unsupported license token algorithm: ${header.alg}`,
+    };
+  }
+
+  // Without a key id, fall back to trying every embedded key
+  const candidateKeys = header.kid
+    ? [publicKeys[header.kid]].filter(Boolean)
+    : Object.values(publicKeys);
+  if (candidateKeys.length === 0) {
+    return {
+      isValid: false,
+      message: "Unknown license token signing key",
+      unknownKey: true,
+    };
+  }
+
+  const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, "base64url");
+  const verified = candidateKeys.some((publicKey) => {
+    try {
+      return crypto.verify(
+        algorithm.digest,
+        signingInput,
+        { key: publicKey, dsaEncoding: algorithm.dsaEncoding },
+        signature,
+      );
+    } catch {
+      return false;
+    }
+  });
+
+  if (!verified) {
+    return { isValid: false, message: "License token signature is invalid" };
+  }
+
+  if (
+    typeof claims.licenseKey !== "string" ||
+    typeof claims.extensionId !== "string" ||
+    typeof claims.machineId !== "string" ||
+    typeof claims.exp !== "number"
+  ) {
+    return { isValid: false, message: "License token is missing claims" };
+  }
+
+  return { isValid: true, claims };
+}
+
+/**
+ * Verifies a license token and checks that it is bound to this license,
+ * extension and machine, and that it has not expired
+ * @param token - The compact JWS token
+ * @param expected - The values the token must be bound to
+ * @param now - The current time in milliseconds
+ * @param publicKeys - Public keys indexed by key id, defaults to the embedded and trusted keys
+ */
+export function verifyLicenseToken(
+  token: string,
+  expected: LicenseTokenExpectations,
+  now = Date.now(),
+  publicKeys: Record<string, string> = getLicensePublicKeys(),
+): LicenseTokenResult {
+  const result = verifyLicenseTokenSignature(token, publicKeys);
+  if (!result.isValid || !result.claims) {
+    return result;
+  }
+  const { claims } = result;
+
+  if (claims.licenseKey !== expected.licenseKey) {
+    return { isValid: false, message: "License token is for a different key" };
+  }
+  if (claims.extensionId !== expected.extensionId) {
+    return {
+      isValid: false,
+      message: "License token is for a different extension",
+    };
+  }
+  if (claims.machineId !== expected.machineId) {
+    return {
+      isValid: false,
+      message: "License token is for a different machine",
+    };
+  }
+  if (claims.exp * 1000 <= now) {
+    return { isValid: false, message: "License has expired", claims };
+  }
+
+  return { isValid: true, claims };
+}
+
+/**
+ * Converts the expiry claim of a token to an ISO date string
+ */
+export function getTokenExpiresOn(claims: LicenseTokenClaims): string {
+  return new Date(claims.exp * 1000).toISOString();
+}
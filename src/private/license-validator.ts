@@ -1,44 +1,58 @@
-import * as vscode from "vscode";
+import type * as vscode from "vscode";
 import * as os from "os";
 import * as crypto from "crypto";
-import { getApiUrl } from "./utils";
+import { logger, registerSecret } from "./logger";
+import { apiRequest, ApiUnreachableError } from "./api-client";
+import { getValidationPolicy, isPastHardFailDate } from "./config";
+import { SecretStorageAdapter, Storage, getStorage } from "./storage";
+import { getVSCode } from "./host";
+import { getCachedLicense, invalidateLicenseCache } from "./license-cache";
+import {
+  scheduleExpiryCheck,
+  seedLicenseState,
+  updateLicenseState,
+} from "./license-events";
+import type { LicenseData as PublicLicenseData } from "../public/tag";
+import { getMachineFingerprint, getMachineId } from "./fingerprint";
+import {
+  TrustedTime,
+  getServerTime,
+  getTrustedTime,
+  recordServerTime,
+} from "./clock";
+import {
+  clearOfflineActivationRequest,
+  verifyOfflineActivationResponse,
+} from "./offline-activation";
+import {
+  LicenseTokenResult,
+  getTokenExpiresOn,
+  verifyLicenseToken,
+} from "./license-token";
+import {
+  LicenseRecord,
+  openLicenseRecord,
+  sealLicenseRecord,
+} from "./license-record";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far the time may move before the watermark in the record is updated */
+const RECORD_WATERMARK_RESOLUTION_MS = 60 * 60 * 1000;
 
 interface ValidationResult {
   isValid: boolean;
   message?: string;
   expiresOn?: string;
   offlineGracePeriodUsed?: boolean;
+  /** True when the result comes from stored data because the server couldn't be reached */
+  serverUnreachable?: boolean;
+  tier?: string;
+  entitlements?: string[];
 }
 
-interface LicenseData {
+interface LicenseData extends LicenseRecord {
   key: string;
-  expiresOn: string;
-  lastValidated: string;
-  machineId: string;
-}
-
-/**
- * Generates a unique machine identifier based on hardware information
- * This ID will persist across extension reinstalls
- */
-async function generateMachineId(): Promise<string> {
-  // Combine multiple system-specific values
-  const values = [
-    os.hostname(),
-    os.platform(),
-    os.arch(),
-    os.cpus()[0]?.model || "",
-    os.totalmem().toString(),
-    // Get VSCode's machineId which is stable across VSCode reinstalls
-    vscode.env.machineId,
-    // Get VSCode's sessionId which is stable across extension reinstalls
-    vscode.env.sessionId,
-  ];
-
-  // Create a hash of the combined values
-  const hash = crypto.createHash("sha256");
-  values.forEach((value) => hash.update(value));
-  return hash.digest("hex");
 }
 
 /**
@@ -52,55 +66,178 @@ export function generateLicenseKey(): string {
 }
 
 /**
- * Interface for storage implementations to persist license data
+ * Stores the license key in the configured storage (SecretStorage by default)
  */
-export interface Storage {
-  /**
-   * Gets an item from storage
-   * @param key - The key to retrieve
-   * @returns Promise resolving to the stored value or null if not found
-   */
-  getItem(key: string): Promise<string | null>;
-
-  /**
-   * Sets an item in storage
-   * @param key - The key to store
-   * @param value - The value to store
-   */
-  setItem(key: string, value: string): Promise<void>;
-
-  /**
-   * Removes an item from storage
-   * @param key - The key to remove
-   */
-  removeItem(key: string): Promise<void>;
-}
-
 export async function storeLicenseKey(
   context: vscode.ExtensionContext,
   licenseKey: string,
 ): Promise<void> {
-  const config = vscode.workspace.getConfiguration(
+  registerSecret(licenseKey);
+  await getStorage(context).setItem("license-key", licenseKey);
+  invalidateLicenseCache(context);
+}
+
+/**
+ * Reads the license key from the `<name>.license-key` user setting
+ * @returns The key, or an empty string outside VS Code
+ */
+function getLicenseKeySetting(context: vscode.ExtensionContext): string {
+  const config = getVSCode()?.workspace.getConfiguration(
     context.extension.packageJSON.name,
   );
-  await config.update(
-    "license-key",
-    licenseKey,
-    vscode.ConfigurationTarget.Global,
+  return config?.get<string>("license-key", "").trim() ?? "";
+}
+
+/**
+ * Clears the `<name>.license-key` user setting so the key no longer shows up
+ * in settings.json or Settings Sync
+ */
+async function clearLicenseKeySetting(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const vscode = getVSCode();
+  if (!vscode) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration(
+    context.extension.packageJSON.name,
   );
+  try {
+    await config.update(
+      "license-key",
+      undefined,
+      vscode.ConfigurationTarget.Global,
+    );
+  } catch (error) {
+    // The setting may not be contributed by the extension anymore
+    logger.warn("Failed to clear license key setting:", error);
+  }
+}
+
+/**
+ * Moves a license key from the `<name>.license-key` user setting into
+ * storage and clears the setting
+ * @returns The imported license key, or undefined if the setting was empty
+ */
+export async function importLicenseKeyFromSetting(
+  context: vscode.ExtensionContext,
+): Promise<string | undefined> {
+  const licenseKey = getLicenseKeySetting(context);
+  if (!licenseKey) {
+    return undefined;
+  }
+
+  await storeLicenseKey(context, licenseKey);
+  await clearLicenseKeySetting(context);
+  return licenseKey;
+}
+
+/**
+ * One-time migration of a license key stored in user settings by earlier
+ * versions. A key already in storage takes precedence over the setting.
+ */
+export async function migrateLicenseKeySetting(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const storage = getStorage(context);
+  if ((await storage.getItem("license-key-migrated")) === "true") {
+    return;
+  }
+
+  if (await storage.getItem("license-key")) {
+    if (getLicenseKeySetting(context)) {
+      await clearLicenseKeySetting(context);
+    }
+  } else {
+    await importLicenseKeyFromSetting(context);
+  }
+
+  await storage.setItem("license-key-migrated", "true");
+}
+
+/** Storage keys used before license data was stored as a single record */
+const LEGACY_LICENSE_DATA_KEYS = [
+  "license-expires",
+  "license-last-validated",
+  "license-machine-id",
+  "license-token",
+  "license-tier",
+  "license-entitlements",
+  "license-auto-renew",
+  "license-validated-offline",
+];
+
+const recordKeys = new WeakMap<vscode.ExtensionContext, Promise<string>>();
+
+/**
+ * Gets the storage of the license record key. It is SecretStorage, whatever
+ * storage is configured, so the key can't be read from the same place as the
+ * record. Hosts without SecretStorage keep it in the configured storage, so
+ * the record stays valid across restarts.
+ */
+function getRecordKeyStorage(context: vscode.ExtensionContext): Storage {
+  return context.secrets
+    ? new SecretStorageAdapter(context.secrets)
+    : getStorage(context);
+}
+
+/**
+ * Gets the random key of the license record MAC, creating it on first use
+ */
+function getRecordKey(context: vscode.ExtensionContext): Promise<string> {
+  let key = recordKeys.get(context);
+  if (!key) {
+    const storage = getRecordKeyStorage(context);
+    key = storage.getItem("license-record-key").then(async (stored) => {
+      if (stored) {
+        return stored;
+      }
+      const created = crypto.randomBytes(32).toString("hex");
+      await storage.setItem("license-record-key", created);
+      return created;
+    });
+    // Retry on the next call if SecretStorage failed
+    key.catch(() => recordKeys.delete(context));
+    recordKeys.set(context, key);
+  }
+  return key;
+}
+
+/**
+ * Gets the secret the license record MAC is keyed with. It combines a random
+ * key kept in SecretStorage with the stable machine id, so a record can't be
+ * re-sealed from the contents of the license storage and a record copied
+ * from another machine doesn't verify, while renaming the machine or
+ * upgrading its memory keeps the record.
+ */
+async function getLicenseRecordSecret(
+  context: vscode.ExtensionContext,
+): Promise<string> {
+  return crypto
+    .createHmac("sha256", await getRecordKey(context))
+    .update(`${context.extension.id}:${await getMachineId(context)}`)
+    .digest("hex");
 }
 
 /**
- * Stores license data in VSCode's secret storage
+ * Stores license data in the configured storage as a single MAC-protected
+ * record
  */
 async function storeLicenseData(
   context: vscode.ExtensionContext,
   data: LicenseData,
 ): Promise<void> {
-  await storeLicenseKey(context, data.key);
-  await context.secrets.store("license-expires", data.expiresOn);
-  await context.secrets.store("license-last-validated", data.lastValidated);
-  await context.secrets.store("license-machine-id", data.machineId);
+  const storage = getStorage(context);
+  const { key, ...record } = data;
+  await storage.setItem("license-key", key);
+  await storage.setItem(
+    "license-record",
+    sealLicenseRecord(key, record, await getLicenseRecordSecret(context)),
+  );
+  for (const legacyKey of LEGACY_LICENSE_DATA_KEYS) {
+    await storage.removeItem(legacyKey);
+  }
 }
 
 /**
@@ -110,229 +247,376 @@ async function clearLicenseData(
   context: vscode.ExtensionContext,
   deleteLicenseKey = false,
 ): Promise<void> {
-  if (!deleteLicenseKey) {
-    // Set last validated to 10 years ago to force validation
+  const storage = getStorage(context);
+  invalidateLicenseCache(context);
+
+  const data = deleteLicenseKey ? null : await getLicenseData(context);
+  if (data) {
+    // Set last validated to 10 years ago to force validation. Without a token
+    // the license can't be used offline until it is revalidated.
     const tenYearsAgo = new Date();
     tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-    await context.secrets.store(
-      "license-last-validated",
-      tenYearsAgo.toISOString(),
-    );
-  } else if (deleteLicenseKey) {
-    // Don't clear out the license key
-    const config = vscode.workspace.getConfiguration(
-      context.extension.packageJSON.name,
-    );
-    await config.update("license-key", "", vscode.ConfigurationTarget.Global);
-    await context.secrets.delete("license-expires");
-    await context.secrets.delete("license-machine-id");
-    await context.secrets.delete("license-last-validated");
+    await storeLicenseData(context, {
+      ...data,
+      lastValidated: tenYearsAgo.toISOString(),
+      token: undefined,
+      validatedOffline: undefined,
+    });
+  } else {
+    await storage.removeItem("license-record");
+    for (const legacyKey of LEGACY_LICENSE_DATA_KEYS) {
+      await storage.removeItem(legacyKey);
+    }
+  }
+
+  if (deleteLicenseKey) {
+    await storage.removeItem("license-key");
   }
+
+  await refreshLicenseState(context);
 }
 
 /**
- * Gets stored license data
+ * Gets stored license data. A record that fails the integrity check is
+ * ignored, which forces an online validation.
  */
 async function getLicenseData(
   context: vscode.ExtensionContext,
 ): Promise<LicenseData | null> {
-  const config = vscode.workspace.getConfiguration(
-    context.extension.packageJSON.name,
-  );
-  const key = config.get<string>("license-key", "");
-  const expiresOn = await context.secrets.get("license-expires");
-  const lastValidated = await context.secrets.get("license-last-validated");
-  const machineId = await context.secrets.get("license-machine-id");
-
-  if (!key || !expiresOn || !lastValidated || !machineId) {
+  const storage = getStorage(context);
+  const key = await storage.getItem("license-key");
+  const value = await storage.getItem("license-record");
+  if (!key || !value) {
     return null;
   }
 
-  return {
+  const record = openLicenseRecord(
     key,
-    expiresOn,
-    lastValidated,
-    machineId,
-  };
+    value,
+    await getLicenseRecordSecret(context),
+  );
+  if (!record) {
+    logger.warn(
+      "[getLicenseData] Stored license record failed the integrity check, online validation required",
+    );
+    return null;
+  }
+
+  return { key, ...record };
 }
 
 /**
- * Revokes the stored license
+ * Gets the trusted time for checking stored license data. The watermark in
+ * the record is the lowest time allowed, so removing or lowering the
+ * separately stored watermark can't move the clock back past it. It is reset
+ * from the server time by each online validation.
  */
-export async function revokeLicense(
+async function getLicenseTime(
   context: vscode.ExtensionContext,
-): Promise<void> {
-  // show a confirmation dialog
-  const result = await vscode.window.showInformationMessage(
-    "Are you sure you want to revoke your license?",
-    { modal: true },
-    "Revoke License",
+  data: LicenseData | null,
+): Promise<TrustedTime> {
+  if (!data) {
+    return getTrustedTime(context);
+  }
+
+  const recorded = new Date(data.timeWatermark ?? data.lastValidated).getTime();
+  const time = await getTrustedTime(context, Date.now(), recorded);
+  if (time.now - recorded >= RECORD_WATERMARK_RESOLUTION_MS) {
+    data.timeWatermark = new Date(time.now).toISOString();
+    await storeLicenseData(context, data);
+  }
+  return time;
+}
+
+/**
+ * Verifies the signed token stored with the license data
+ */
+function verifyStoredToken(
+  context: vscode.ExtensionContext,
+  data: LicenseData,
+  now = Date.now(),
+): LicenseTokenResult {
+  if (!data.token) {
+    return { isValid: false, message: "No signed license token is stored" };
+  }
+
+  return verifyLicenseToken(
+    data.token,
+    {
+      licenseKey: data.key,
+      extensionId: context.extension.id,
+      machineId: data.machineId,
+    },
+    now,
   );
-  if (result === "Revoke License") {
-    await clearLicenseData(context, true);
-    await vscode.window.showInformationMessage("License revoked successfully!");
+}
+
+/**
+ * Removes the stored license key and license data from this machine
+ */
+export async function removeStoredLicense(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  await clearLicenseData(context, true);
+}
+
+/**
+ * Activates a license from the response file of an offline activation
+ * request, for machines that can't reach the license server
+ * @param context - The extension context
+ * @param contents - Contents of the response file
+ */
+export async function importOfflineActivation(
+  context: vscode.ExtensionContext,
+  contents: string,
+): Promise<ValidationResult> {
+  try {
+    const { licenseKey, token, claims } = await verifyOfflineActivationResponse(
+      context,
+      contents,
+    );
+    const expiresOn = getTokenExpiresOn(claims);
+
+    await storeLicenseData(context, {
+      key: licenseKey,
+      expiresOn,
+      lastValidated: new Date().toISOString(),
+      machineId: claims.machineId,
+      token,
+      tier: claims.tier,
+      entitlements: claims.entitlements,
+      autoRenew: claims.autoRenew,
+    });
+    await clearOfflineActivationRequest(context);
+    invalidateLicenseCache(context);
+    await refreshLicenseState(context);
+
+    return {
+      isValid: true,
+      expiresOn,
+      tier: claims.tier,
+      entitlements: claims.entitlements,
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to import offline activation: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
   }
 }
 
+const inFlightValidations = new Map<string, Promise<ValidationResult>>();
+
 /**
- * Validates a license key with the server
+ * Validates a license key with the server. Concurrent validations of the same
+ * key share a single request.
  * @param context - The extension context
  * @param licenseKey - The license key to validate (will be used as API key)
- * @param gracePeriodDays - Number of days to allow offline usage
+ * @param gracePeriodDays - Number of days to allow offline usage, defaults to the validation policy
  */
-export async function validateLicense(
+export function validateLicense(
   context: vscode.ExtensionContext,
   licenseKey: string,
-  gracePeriodDays = 3,
+  gracePeriodDays = getValidationPolicy(context).gracePeriodDays,
 ): Promise<ValidationResult> {
-  try {
-    try {
-      let response: Response | undefined;
-      const machineId = await generateMachineId();
-
-      const MOCK_MODE = false;
-      if (MOCK_MODE) {
-        response = new Response(
-          JSON.stringify({
-            isValid: true,
-            message: "MOCK - License validated offline using grace period",
-            expiresOn: new Date(
-              Date.now() + 30 * 24 * 60 * 60 * 1000,
-            ).toISOString(),
-          }),
-        );
-      } else {
-        // Add logging to debug request
-        const requestBody = {
-          machineId,
-          sessionId: vscode.env.sessionId,
-          extensionId: context.extension.id,
-          environment: {
-            ideVersion: vscode.version,
-            ideName: vscode.env.appName,
-            extensionVersion: context.extension.packageJSON.version,
-            platform: os.platform(),
-            release: os.release(),
-          },
-        };
-
-        const url = await getApiUrl(context);
-        const endpoint = `${url}/validate`;
-        console.log("License validation request:", {
-          endpoint,
-          licenseKey: "***", // masked for security
-          body: requestBody,
-        });
-
-        response = await fetch(endpoint, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${licenseKey}`,
-          },
-          body: JSON.stringify(requestBody),
-        });
-      }
+  registerSecret(licenseKey);
+  const flightKey = `${context.extension.id}:${licenseKey}`;
+  const inFlight = inFlightValidations.get(flightKey);
+  if (inFlight) {
+    return inFlight;
+  }
 
-      // Add response validation
-      if (!response) {
-        throw new Error("No response received from license validation");
+  const validation = performValidation(context, licenseKey, gracePeriodDays)
+    .then(async (result) => {
+      // Keep the cached result unless the outcome differs from it
+      const cached = getCachedLicense(context)?.value;
+      if (
+        !cached ||
+        cached.licenseKey !== licenseKey ||
+        cached.isValid !== result.isValid
+      ) {
+        invalidateLicenseCache(context);
       }
+      await refreshLicenseState(context);
+      return result;
+    })
+    .finally(() => {
+      inFlightValidations.delete(flightKey);
+    });
+  inFlightValidations.set(flightKey, validation);
+  return validation;
+}
 
-      // Log response status and headers
-      console.log("License validation response:", {
-        status: response.status,
-        statusText: response.statusText,
-        headers: response.headers,
-      });
+/**
+ * Clears the stored license data after the server rejected a license key.
+ * Another stored license is kept, such as when the key of a new checkout
+ * fails to activate.
+ */
+async function clearRejectedLicense(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+): Promise<void> {
+  if ((await getStorage(context).getItem("license-key")) === licenseKey) {
+    await clearLicenseData(context);
+  }
+}
 
-      if (response.status === 403 || response.status === 401) {
-        // Clear any existing license if validation failed
-        await clearLicenseData(context);
-        throw new Error("Invalid license key");
-      }
+/**
+ * Performs the license validation request and falls back to offline
+ * validation when the server can't be reached
+ */
+async function performValidation(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  gracePeriodDays: number,
+): Promise<ValidationResult> {
+  try {
+    let response: Response;
+    const fingerprint = await getMachineFingerprint(context);
+    const { machineId } = fingerprint;
+
+    // Add logging to debug request
+    const requestBody = {
+      machineId,
+      // Lets the server recognize this machine when only some components changed
+      fingerprint: {
+        version: fingerprint.version,
+        components: fingerprint.components,
+      },
+      machineName: os.hostname(),
+      extensionId: context.extension.id,
+      environment: {
+        ideVersion: getVSCode()?.version,
+        ideName: getVSCode()?.env.appName,
+        extensionVersion: context.extension.packageJSON.version,
+        platform: os.platform(),
+        release: os.release(),
+      },
+    };
+
+    logger.debug("License validation request:", {
+      path: "/validate",
+      licenseKey: "***", // masked for security
+      body: requestBody,
+    });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `License validation failed: ${response.status} - ${errorText}`,
-        );
+    try {
+      response = await apiRequest(context, "/validate", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${licenseKey}`,
+        },
+        body: requestBody,
+      });
+    } catch (error) {
+      if (error instanceof ApiUnreachableError) {
+        logger.info("License server unreachable:", error.message);
+        return validateLicenseOffline(context, licenseKey, gracePeriodDays);
       }
+      throw error;
+    }
 
-      // Parse JSON response directly since Content-Type is now correct
-      const result = await response.json();
-
-      // Log the successful parse
-      console.log("Successfully parsed response:", result);
-
-      if (result.isValid) {
-        // Store the license data with machine ID
-        await storeLicenseData(context, {
-          key: licenseKey,
-          expiresOn: result.expiresOn,
-          lastValidated: new Date().toISOString(),
-          machineId,
-        });
-      } else {
-        // Clear any existing license if validation failed
-        await clearLicenseData(context);
-      }
+    // Log response status and headers
+    logger.debug("License validation response:", {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
 
+    if (response.status === 403 || response.status === 401) {
+      // Clear any existing license if validation failed
+      await clearRejectedLicense(context, licenseKey);
       return {
-        isValid: result.isValid,
-        message: result.message,
-        expiresOn: result.expiresOn,
+        isValid: false,
+        message: "Invalid license key",
       };
-    } catch (networkError) {
-      // Handle offline scenario
-      const existingLicense = await getLicenseData(context);
+    }
 
-      // If there's no existing license data, we can't provide offline access
-      if (!existingLicense) {
-        return {
-          isValid: false,
-          message:
-            "License validation requires internet connection for first-time activation",
-        };
-      }
+    // Any other failure, such as rate limiting or a server error, means the
+    // server couldn't answer rather than that the license is invalid
+    if (!response.ok) {
+      logger.warn(
+        `License validation failed: ${response.status} - ${await response.text()}`,
+      );
+      return validateLicenseOffline(context, licenseKey, gracePeriodDays);
+    }
 
-      // Check if the provided key matches the stored key
-      if (existingLicense.key !== licenseKey) {
-        return {
-          isValid: false,
-          message: "License key mismatch during offline validation",
-        };
-      }
+    // Parse JSON response directly since Content-Type is now correct
+    const result = await response.json();
 
-      // Check if the license is expired
-      const expirationDate = new Date(existingLicense.expiresOn);
-      if (expirationDate <= new Date()) {
-        return {
-          isValid: false,
-          message:
-            "License has expired. Online validation required for renewal.",
-        };
-      }
+    // The server time resets the clock rollback watermark
+    const serverTime = getServerTime(response, result);
+    if (serverTime !== undefined) {
+      await recordServerTime(context, serverTime);
+    }
 
-      // Check if we're within the grace period
-      const lastValidated = new Date(existingLicense.lastValidated);
-      const gracePeriodMs = gracePeriodDays * 24 * 60 * 60 * 1000;
-      if (Date.now() - lastValidated.getTime() > gracePeriodMs) {
+    // Log the successful parse
+    logger.debug("Successfully parsed response:", result);
+
+    let expiresOn: string = result.expiresOn;
+    let tier: string | undefined = result.tier;
+    let entitlements: string[] | undefined = result.entitlements;
+    let autoRenew: boolean | undefined = result.autoRenew;
+    let token: string | undefined = result.token;
+    const tokenResult =
+      result.isValid && token
+        ? verifyLicenseToken(token, {
+            licenseKey,
+            extensionId: context.extension.id,
+            machineId,
+          })
+        : undefined;
+    if (tokenResult?.unknownKey) {
+      // The signature can't be checked, so treat the license like one without
+      // a token: valid while online, but not offline
+      logger.warn(
+        "[performValidation] The license token is signed with an unknown key. The license can't be used offline until its key is trusted.",
+      );
+      token = undefined;
+    } else if (tokenResult) {
+      // Only trust the expiry that the server signed
+      if (!tokenResult.isValid || !tokenResult.claims) {
+        await clearRejectedLicense(context, licenseKey);
         return {
           isValid: false,
-          message:
-            "Offline grace period has expired. Please connect to the internet to validate your license.",
+          message: `License token could not be verified: ${tokenResult.message}`,
         };
       }
+      expiresOn = getTokenExpiresOn(tokenResult.claims);
+      tier = tokenResult.claims.tier;
+      entitlements = tokenResult.claims.entitlements;
+      autoRenew = tokenResult.claims.autoRenew;
+    } else if (result.isValid) {
+      logger.warn(
+        "[performValidation] The license server returned no signed license token. The license can't be used offline until the server issues tokens.",
+      );
+    }
 
-      // License is valid within grace period
-      return {
-        isValid: true,
-        message: "License validated offline using grace period",
-        expiresOn: existingLicense.expiresOn,
-        offlineGracePeriodUsed: true,
-      };
+    if (result.isValid) {
+      // Store the license data with machine ID
+      await storeLicenseData(context, {
+        key: licenseKey,
+        expiresOn,
+        lastValidated: new Date(serverTime ?? Date.now()).toISOString(),
+        machineId,
+        token,
+        tier,
+        entitlements,
+        autoRenew,
+      });
+    } else {
+      // Clear any existing license if validation failed
+      await clearRejectedLicense(context, licenseKey);
     }
+
+    return {
+      isValid: result.isValid,
+      message: result.message,
+      expiresOn,
+      tier: result.isValid ? tier : undefined,
+      entitlements: result.isValid ? entitlements : undefined,
+    };
   } catch (error) {
     throw new Error(
       `Failed to validate license: ${
@@ -342,20 +626,143 @@ export async function validateLicense(
   }
 }
 
+/**
+ * Validates a license from stored data when the server can't be reached
+ * @param context - The extension context
+ * @param licenseKey - The license key to validate
+ * @param gracePeriodDays - Number of days to allow offline usage
+ */
+async function validateLicenseOffline(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  gracePeriodDays: number,
+): Promise<ValidationResult> {
+  const existingLicense = await getLicenseData(context);
+
+  // If there's no existing license data, we can't provide offline access
+  if (!existingLicense) {
+    return {
+      isValid: false,
+      message:
+        "License validation requires internet connection for first-time activation. Use Activate Offline to activate on a machine without internet access.",
+      serverUnreachable: true,
+    };
+  }
+
+  // Check if the provided key matches the stored key
+  if (existingLicense.key !== licenseKey) {
+    return {
+      isValid: false,
+      message: "License key mismatch during offline validation",
+      serverUnreachable: true,
+    };
+  }
+
+  // Stored data copied from another machine can't be used offline
+  if (existingLicense.machineId !== (await getMachineId(context))) {
+    return {
+      isValid: false,
+      message:
+        "License was activated on a different machine. Online validation required.",
+      serverUnreachable: true,
+    };
+  }
+
+  // A clock set back can't be trusted to measure the grace period or expiry
+  const { now, rollbackDetected } = await getLicenseTime(
+    context,
+    existingLicense,
+  );
+  if (rollbackDetected) {
+    return {
+      isValid: false,
+      message:
+        "The system clock appears to have been set back. Please connect to the internet to validate your license.",
+      serverUnreachable: true,
+    };
+  }
+
+  // The validation policy can end offline use on a fixed date
+  if (isPastHardFailDate(context, now)) {
+    return {
+      isValid: false,
+      message:
+        "Offline license validation is no longer permitted. Please connect to the internet to validate your license.",
+      serverUnreachable: true,
+    };
+  }
+
+  // Only a signed token can be trusted while offline
+  const tokenResult = verifyStoredToken(context, existingLicense, now);
+  if (tokenResult.claims && !tokenResult.isValid) {
+    return {
+      isValid: false,
+      message: "License has expired. Online validation required for renewal.",
+      serverUnreachable: true,
+    };
+  }
+  if (!tokenResult.isValid || !tokenResult.claims) {
+    return {
+      isValid: false,
+      message: `${tokenResult.message}. Online validation required.`,
+      serverUnreachable: true,
+    };
+  }
+
+  // Check if we're within the grace period, measured from the earlier of
+  // the stored validation date and the time the token was issued. Licenses
+  // activated offline have no grace period and are valid until they expire.
+  const { claims } = tokenResult;
+  const lastValidated = Math.min(
+    new Date(existingLicense.lastValidated).getTime(),
+    claims.iat ? claims.iat * 1000 : Infinity,
+  );
+  const gracePeriodMs = gracePeriodDays * 24 * 60 * 60 * 1000;
+  if (!claims.offline && now - lastValidated > gracePeriodMs) {
+    return {
+      isValid: false,
+      message:
+        "Offline grace period has expired. Please connect to the internet to validate your license.",
+      serverUnreachable: true,
+    };
+  }
+
+  // Remembered until the next online validation so the grace period can be
+  // shown to the user
+  if (!claims.offline && !existingLicense.validatedOffline) {
+    await storeLicenseData(context, {
+      ...existingLicense,
+      validatedOffline: true,
+    });
+  }
+
+  // License is valid within grace period
+  return {
+    isValid: true,
+    message: "License validated offline using grace period",
+    expiresOn: getTokenExpiresOn(claims),
+    offlineGracePeriodUsed: true,
+    serverUnreachable: true,
+    tier: claims.tier,
+    entitlements: claims.entitlements,
+  };
+}
+
 /**
  * Gets the stored license key if any
  */
 export async function getStoredLicense(
   context: vscode.ExtensionContext,
 ): Promise<string | undefined> {
-  const config = vscode.workspace.getConfiguration(
-    context.extension.packageJSON.name,
-  );
-  return config.get<string>("license-key", "");
+  await migrateLicenseKeySetting(context);
+  const licenseKey = await getStorage(context).getItem("license-key");
+  registerSecret(licenseKey);
+  return licenseKey ?? undefined;
 }
 
 /**
- * Checks if the stored license is expired
+ * Checks if the stored license is expired, using the expiry from the signed
+ * license token. A missing or unverifiable token counts as expired.
  */
 export async function isLicenseExpired(
   context: vscode.ExtensionContext,
@@ -365,23 +772,136 @@ export async function isLicenseExpired(
     return true;
   }
 
-  return new Date(data.expiresOn) <= new Date();
+  const { now } = await getLicenseTime(context, data);
+  return !verifyStoredToken(context, data, now).isValid;
 }
 
 /**
  * Checks if the license needs online validation
- * @param gracePeriodDays - Number of days to allow between online validations
+ * @param gracePeriodDays - Number of days to allow between online validations, defaults to the validation policy
  */
 export async function needsOnlineValidation(
   context: vscode.ExtensionContext,
-  gracePeriodDays = 3,
+  gracePeriodDays = getValidationPolicy(context).gracePeriodDays,
 ): Promise<boolean> {
   const data = await getLicenseData(context);
-  if (!data) {
+  const { now, rollbackDetected } = await getLicenseTime(context, data);
+  if (!data || rollbackDetected || isPastHardFailDate(context, now)) {
     return true;
   }
 
+  // Licenses activated offline can't be validated online
+  const tokenResult = verifyStoredToken(context, data, now);
+  if (tokenResult.isValid && tokenResult.claims?.offline) {
+    return false;
+  }
+
   const lastValidated = new Date(data.lastValidated);
   const gracePeriodMs = gracePeriodDays * 24 * 60 * 60 * 1000;
-  return Date.now() - lastValidated.getTime() > gracePeriodMs;
+  return now - lastValidated.getTime() > gracePeriodMs;
+}
+
+/**
+ * Checks if a background online revalidation is due according to the
+ * revalidation interval of the validation policy
+ */
+export async function isRevalidationDue(
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  const data = await getLicenseData(context);
+  if (!data) {
+    return true;
+  }
+
+  // Licenses activated offline are valid until they expire
+  if (verifyStoredToken(context, data).claims?.offline) {
+    return false;
+  }
+
+  const { revalidationIntervalHours } = getValidationPolicy(context);
+  const { now } = await getLicenseTime(context, data);
+  const lastValidated = new Date(data.lastValidated);
+  const intervalMs = revalidationIntervalHours * 60 * 60 * 1000;
+  return now - lastValidated.getTime() >= intervalMs;
+}
+
+/**
+ * Computes the effective license state from storage
+ * @returns License data, or null when no license key is stored
+ */
+export async function getEffectiveLicense(
+  context: vscode.ExtensionContext,
+): Promise<PublicLicenseData | null> {
+  const licenseKey = await getStorage(context).getItem("license-key");
+  if (!licenseKey) {
+    return null;
+  }
+
+  const data = await getLicenseData(context);
+  if (!data) {
+    return { licenseKey, isValid: false, isOnlineValidationRequired: true };
+  }
+
+  const { now } = await getLicenseTime(context, data);
+  const isExpired = new Date(data.expiresOn).getTime() <= now;
+  const isOnlineValidationRequired = await needsOnlineValidation(context);
+
+  let offlineGraceDaysRemaining: number | undefined;
+  if (data.validatedOffline) {
+    const { gracePeriodDays } = getValidationPolicy(context);
+    const graceEndsAt =
+      new Date(data.lastValidated).getTime() + gracePeriodDays * DAY_MS;
+    offlineGraceDaysRemaining = Math.max(
+      0,
+      Math.ceil((graceEndsAt - now) / DAY_MS),
+    );
+  }
+
+  return {
+    licenseKey,
+    isValid: !isExpired && !isOnlineValidationRequired,
+    expiresOn: data.expiresOn,
+    isExpired,
+    isOnlineValidationRequired,
+    lastValidated: data.lastValidated,
+    machineId: data.machineId,
+    tier: data.tier,
+    entitlements: data.entitlements,
+    autoRenew: data.autoRenew,
+    offlineGraceDaysRemaining,
+  };
+}
+
+/**
+ * Recomputes the effective license state, fires onDidChangeLicense if it
+ * changed and schedules a refresh for when the license expires
+ */
+export async function refreshLicenseState(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const license = await getEffectiveLicense(context);
+  if (updateLicenseState(context, license)) {
+    invalidateLicenseCache(context);
+  }
+  scheduleExpiryCheck(
+    context,
+    license?.isValid ? license.expiresOn : undefined,
+    () => refreshLicenseState(context),
+  );
+}
+
+/**
+ * Records the license state at activation so only later changes fire
+ * onDidChangeLicense
+ */
+export async function initializeLicenseState(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const license = await getEffectiveLicense(context);
+  seedLicenseState(context, license);
+  scheduleExpiryCheck(
+    context,
+    license?.isValid ? license.expiresOn : undefined,
+    () => refreshLicenseState(context),
+  );
 }
@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import * as util from "util";
+
+export type LogLevel = "off" | "error" | "warn" | "info" | "debug";
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Channel that receives log lines in addition to the console */
+  outputChannel?: Pick<vscode.OutputChannel, "appendLine">;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  off: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+const DEFAULT_LEVEL: LogLevel = "warn";
+
+/** Object keys whose values are never logged */
+const SENSITIVE_KEY = /key$|token|authorization|secret|password/i;
+
+/** Patterns of secrets embedded in strings, the first group is kept */
+const SENSITIVE_PATTERNS = [
+  // Signed license tokens (compact JWS)
+  /()\beyJ[\w-]*\.[\w-]+\.[\w-]+/g,
+  /(Bearer\s+)[^\s"',]+/gi,
+  // License keys in plain, URL encoded and double encoded query strings
+  /((?:\b|%(?:25)*3F|%(?:25)*26)(?:key|licenseKey|token)(?:=|%(?:25)*3D))[^&\s"'%]+/gi,
+];
+
+/** Secrets shorter than this are too likely to match unrelated text */
+const MIN_SECRET_LENGTH = 8;
+
+let currentLevel: LogLevel = DEFAULT_LEVEL;
+let outputChannel: LoggerOptions["outputChannel"];
+const secrets = new Set<string>();
+
+/**
+ * Sets the log level and output channel of the logger
+ */
+export function configureLogger(options: LoggerOptions): void {
+  currentLevel = options.level ?? DEFAULT_LEVEL;
+  outputChannel = options.outputChannel;
+}
+
+/**
+ * Registers a value, such as a license key, that is replaced wherever it
+ * appears in a log line
+ */
+export function registerSecret(value: string | undefined | null): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Removes registered secrets, tokens and license keys from a string
+ */
+export function redactString(value: string): string {
+  let redacted = value;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join("***");
+  }
+  for (const pattern of SENSITIVE_PATTERNS) {
+    redacted = redacted.replace(pattern, "$1***");
+  }
+  return redacted;
+}
+
+/**
+ * Copies a value, replacing the values of sensitive object keys
+ */
+export function redactValue(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value instanceof Error || !value || typeof value !== "object") {
+    return value;
+  }
+  if (depth > 5) {
+    return "[Object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && item ? "***" : redactValue(item, depth + 1),
+    ]),
+  );
+}
+
+function formatArgument(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Error) {
+    return value.stack ?? `${value.name}: ${value.message}`;
+  }
+  return util.inspect(redactValue(value), { depth: 6, breakLength: Infinity });
+}
+
+/**
+ * Formats a log line, redacting secrets
+ */
+export function formatLogLine(
+  level: LogLevel,
+  message: string,
+  args: unknown[],
+): string {
+  const text = [message, ...args.map(formatArgument)].join(" ");
+  return `[${new Date().toISOString()}] [${level}] ${redactString(text)}`;
+}
+
+function log(
+  level: Exclude<LogLevel, "off">,
+  message: string,
+  args: unknown[],
+): void {
+  if (LEVELS[level] > LEVELS[currentLevel]) {
+    return;
+  }
+
+  const line = formatLogLine(level, message, args);
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+  outputChannel?.appendLine(line);
+}
+
+/**
+ * Leveled logger that redacts license keys and tokens
+ */
+export const logger = {
+  error: (message: string, ...args: unknown[]) => log("error", message, args),
+  warn: (message: string, ...args: unknown[]) => log("warn", message, args),
+  info: (message: string, ...args: unknown[]) => log("info", message, args),
+  debug: (message: string, ...args: unknown[]) => log("debug", message, args),
+};
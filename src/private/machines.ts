@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { apiRequest } from "./api-client";
+
+/**
+ * A machine that occupies a seat of a license
+ */
+export interface ActivatedMachine {
+  machineId: string;
+  name?: string;
+  lastSeen?: string;
+  isCurrent: boolean;
+}
+
+/**
+ * Throws for responses that don't indicate success
+ */
+async function assertOk(response: Response, action: string): Promise<void> {
+  if (response.status === 401 || response.status === 403) {
+    throw new Error("Invalid license key");
+  }
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to ${action}: ${response.status} - ${errorText}`);
+  }
+}
+
+/**
+ * Lists the machines activated with a license key
+ * @param context - The extension context
+ * @param licenseKey - The license key
+ * @param currentMachineId - The id of this machine, used to flag it in the list
+ */
+export async function listActivatedMachines(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  currentMachineId: string,
+): Promise<ActivatedMachine[]> {
+  const response = await apiRequest(context, "/licenses/machines", {
+    headers: {
+      Authorization: `Bearer ${licenseKey}`,
+    },
+  });
+  await assertOk(response, "list activated machines");
+
+  const { machines = [] } = await response.json();
+  return machines.map(
+    (machine: { machineId: string; name?: string; lastSeen?: string }) => ({
+      machineId: machine.machineId,
+      name: machine.name,
+      lastSeen: machine.lastSeen,
+      isCurrent: machine.machineId === currentMachineId,
+    }),
+  );
+}
+
+/**
+ * Releases the seat a machine occupies on the server
+ * @param context - The extension context
+ * @param licenseKey - The license key
+ * @param machineId - The id of the machine to release
+ */
+export async function deactivateMachine(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+  machineId: string,
+): Promise<void> {
+  const response = await apiRequest(
+    context,
+    `/licenses/machines/${encodeURIComponent(machineId)}`,
+    {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${licenseKey}`,
+      },
+    },
+  );
+  await assertOk(response, "deactivate machine");
+}
@@ -0,0 +1,232 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { logger } from "./logger";
+import { ApiUnreachableError, RequestOptions } from "./api-client";
+import { getMachineId } from "./fingerprint";
+import { trustLicensePublicKey } from "./license-token";
+import { getWebUrl } from "./utils";
+
+/**
+ * Outcome the mock backend simulates for a request
+ * - `valid`: the license is valid and a signed token is issued
+ * - `invalid`: the server rejects the license key with 401
+ * - `forbidden`: the server rejects the license key with 403
+ * - `expired`: the server reports the license as expired
+ * - `server-error`: the server answers with 500
+ * - `timeout`: the request times out
+ * - `offline`: the server can't be reached
+ */
+export type MockScenario =
+  | "valid"
+  | "invalid"
+  | "forbidden"
+  | "expired"
+  | "server-error"
+  | "timeout"
+  | "offline";
+
+/**
+ * Replaces the license API with a local mock for demos and tests
+ */
+export interface MockBackendOptions {
+  /**
+   * Scenario for every request, or a script of scenarios used one per
+   * request with the last one repeating. Analytics requests always succeed.
+   * Defaults to `valid`.
+   */
+  scenario?: MockScenario | MockScenario[];
+  /** URL returned for checkout requests, defaults to the purchase success page */
+  checkoutUrl?: string;
+  /** Days until mock licenses expire, defaults to 30 */
+  expiresInDays?: number;
+  tier?: string;
+  entitlements?: string[];
+  /** Whether mock licenses are subscriptions that renew automatically */
+  autoRenew?: boolean;
+}
+
+const MOCK_KEY_ID = "code-checkout-mock";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let signingKey: crypto.KeyObject | undefined;
+const scriptPositions = new WeakMap<MockBackendOptions, number>();
+
+/**
+ * Gets the key mock tokens are signed with. The key pair is created once per
+ * process and its public key trusted, so mock tokens verify like real ones
+ * but never outlive the process.
+ */
+function getSigningKey(): crypto.KeyObject {
+  if (!signingKey) {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+    trustLicensePublicKey(
+      MOCK_KEY_ID,
+      publicKey.export({ type: "spki", format: "pem" }).toString(),
+    );
+    signingKey = privateKey;
+  }
+  return signingKey;
+}
+
+function signToken(claims: object): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const signingInput = `${encode({ alg: "EdDSA", kid: MOCK_KEY_ID, typ: "JWT" })}.${encode(claims)}`;
+  const signature = crypto.sign(
+    null,
+    Buffer.from(signingInput),
+    getSigningKey(),
+  );
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Takes the scenario for the next request from the script
+ */
+function nextScenario(options: MockBackendOptions): MockScenario {
+  const { scenario = "valid" } = options;
+  if (!Array.isArray(scenario)) {
+    return scenario;
+  }
+
+  const position = scriptPositions.get(options) ?? 0;
+  scriptPositions.set(options, position + 1);
+  return scenario[Math.min(position, scenario.length - 1)] ?? "valid";
+}
+
+function jsonResponse(status: number, body?: unknown): Response {
+  return body === undefined
+    ? new Response(null, { status })
+    : new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+}
+
+function getLicenseKey(options: RequestOptions): string | undefined {
+  return options.headers?.Authorization?.replace(/^Bearer /, "");
+}
+
+/**
+ * Answers a successful request for a path of the license API
+ */
+async function handleValidRequest(
+  context: vscode.ExtensionContext,
+  mock: MockBackendOptions,
+  url: URL,
+  options: RequestOptions,
+): Promise<Response> {
+  const method = options.method ?? "GET";
+  const body = (options.body ?? {}) as Record<string, unknown>;
+  const now = Date.now();
+  const expiresOn = new Date(now + (mock.expiresInDays ?? 30) * DAY_MS);
+
+  if (method === "POST" && url.pathname === "/validate") {
+    return jsonResponse(200, {
+      isValid: true,
+      message: "MOCK - License is valid",
+      expiresOn: expiresOn.toISOString(),
+      tier: mock.tier,
+      entitlements: mock.entitlements,
+      autoRenew: mock.autoRenew,
+      token: signToken({
+        licenseKey: getLicenseKey(options),
+        extensionId: body.extensionId,
+        machineId: body.machineId,
+        exp: Math.floor(expiresOn.getTime() / 1000),
+        iat: Math.floor(now / 1000),
+        tier: mock.tier,
+        entitlements: mock.entitlements,
+        autoRenew: mock.autoRenew,
+      }),
+    });
+  }
+
+  if (url.pathname.endsWith("/checkout")) {
+    return jsonResponse(200, {
+      url:
+        mock.checkoutUrl ??
+        url.searchParams.get("successUrl") ??
+        getWebUrl(context),
+    });
+  }
+
+  if (method === "POST" && url.pathname === "/trial") {
+    return jsonResponse(200, { startedAt: new Date(now).toISOString() });
+  }
+
+  if (url.pathname === "/licenses/machines") {
+    return jsonResponse(200, {
+      machines: [
+        {
+          machineId: await getMachineId(context),
+          name: "MOCK - This machine",
+          lastSeen: new Date(now).toISOString(),
+        },
+      ],
+    });
+  }
+
+  if (method === "DELETE" && url.pathname.startsWith("/licenses/machines/")) {
+    return jsonResponse(204);
+  }
+
+  return jsonResponse(404, { message: `MOCK - Unknown path ${url.pathname}` });
+}
+
+/**
+ * Answers a license API request according to the mock backend options
+ * @param context - The extension context
+ * @param mock - The mock backend options
+ * @param path - The path relative to the API URL
+ * @param options - Request options
+ * @throws ApiUnreachableError for the `timeout` and `offline` scenarios
+ */
+export async function mockApiRequest(
+  context: vscode.ExtensionContext,
+  mock: MockBackendOptions,
+  path: string,
+  options: RequestOptions = {},
+): Promise<Response> {
+  const url = new URL(path, "http://mock.code-checkout");
+  logger.debug(
+    "Mock license API request:",
+    options.method ?? "GET",
+    url.pathname,
+  );
+
+  if (url.pathname === "/analytics/events") {
+    return jsonResponse(204);
+  }
+
+  const scenario = nextScenario(mock);
+  switch (scenario) {
+    case "invalid":
+      return jsonResponse(401, { message: "MOCK - Invalid license key" });
+    case "forbidden":
+      return jsonResponse(403, { message: "MOCK - License key not permitted" });
+    case "expired":
+      return url.pathname === "/validate"
+        ? jsonResponse(200, {
+            isValid: false,
+            message: "MOCK - License has expired",
+            expiresOn: new Date(Date.now() - DAY_MS).toISOString(),
+          })
+        : jsonResponse(403, { message: "MOCK - License has expired" });
+    case "server-error":
+      return jsonResponse(500, { message: "MOCK - Internal server error" });
+    case "timeout": {
+      const timeoutMs = options.timeoutMs ?? 10000;
+      await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+      throw new ApiUnreachableError(
+        `Request to ${url.pathname} timed out after ${timeoutMs}ms`,
+      );
+    }
+    case "offline":
+      throw new ApiUnreachableError(
+        `Request to ${url.pathname} failed: MOCK - offline`,
+      );
+    default:
+      return handleValidRequest(context, mock, url, options);
+  }
+}
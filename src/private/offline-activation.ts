@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { getMachineFingerprint } from "./fingerprint";
+import { LicenseTokenClaims, verifyLicenseToken } from "./license-token";
+import { getStorage } from "./storage";
+
+/**
+ * Contents of the request file that is taken to a connected machine to
+ * activate a license on a machine without internet access
+ */
+export interface OfflineActivationRequest {
+  type: "code-checkout-activation-request";
+  version: 1;
+  licenseKey: string;
+  extensionId: string;
+  machineId: string;
+  fingerprint: {
+    version: number;
+    components: Record<string, string>;
+  };
+  /** Single-use value the signed response must echo */
+  nonce: string;
+  createdAt: string;
+}
+
+/**
+ * A verified offline activation response
+ */
+export interface OfflineActivation {
+  licenseKey: string;
+  token: string;
+  claims: LicenseTokenClaims;
+}
+
+interface PendingRequest {
+  licenseKey: string;
+  nonce: string;
+  createdAt: string;
+}
+
+/**
+ * Creates an offline activation request for this machine and remembers its
+ * nonce so only the response to this request is accepted
+ * @param context - The extension context
+ * @param licenseKey - The license key to activate
+ */
+export async function createOfflineActivationRequest(
+  context: vscode.ExtensionContext,
+  licenseKey: string,
+): Promise<OfflineActivationRequest> {
+  const fingerprint = await getMachineFingerprint(context);
+  const pending: PendingRequest = {
+    licenseKey,
+    nonce: crypto.randomBytes(16).toString("hex"),
+    createdAt: new Date().toISOString(),
+  };
+  await getStorage(context).setItem(
+    "offline-activation-request",
+    JSON.stringify(pending),
+  );
+
+  return {
+    type: "code-checkout-activation-request",
+    version: 1,
+    licenseKey,
+    extensionId: context.extension.id,
+    machineId: fingerprint.machineId,
+    fingerprint: {
+      version: fingerprint.version,
+      components: fingerprint.components,
+    },
+    nonce: pending.nonce,
+    createdAt: pending.createdAt,
+  };
+}
+
+/**
+ * Checks whether an offline activation request is waiting for its response
+ */
+export async function hasPendingOfflineActivation(
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  return !!(await getStorage(context).getItem("offline-activation-request"));
+}
+
+/**
+ * Verifies the contents of an offline activation response file against the
+ * pending request
+ * @param context - The extension context
+ * @param contents - Contents of the response file
+ * @throws If the response is malformed, not signed by the API or doesn't
+ * answer the pending request
+ */
+export async function verifyOfflineActivationResponse(
+  context: vscode.ExtensionContext,
+  contents: string,
+): Promise<OfflineActivation> {
+  const value = await getStorage(context).getItem("offline-activation-request");
+  if (!value) {
+    throw new Error("No offline activation request is pending");
+  }
+  const pending: PendingRequest = JSON.parse(value);
+
+  let token: unknown;
+  try {
+    token = JSON.parse(contents).token;
+  } catch {
+    throw new Error("The response file is not valid JSON");
+  }
+  if (typeof token !== "string") {
+    throw new Error("The response file does not contain a license token");
+  }
+
+  const { machineId } = await getMachineFingerprint(context);
+  const result = verifyLicenseToken(token, {
+    licenseKey: pending.licenseKey,
+    extensionId: context.extension.id,
+    machineId,
+  });
+  if (!result.isValid || !result.claims) {
+    throw new Error(result.message ?? "Invalid license token");
+  }
+  if (result.claims.nonce !== pending.nonce) {
+    throw new Error(
+      "The response file does not belong to the latest activation request",
+    );
+  }
+
+  return { licenseKey: pending.licenseKey, token, claims: result.claims };
+}
+
+/**
+ * Forgets the pending offline activation request so its response can't be
+ * imported again
+ */
+export async function clearOfflineActivationRequest(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  await getStorage(context).removeItem("offline-activation-request");
+}
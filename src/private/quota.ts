@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import { getStorage } from "./storage";
+
+/**
+ * Lets a paid command be used a limited number of times per period without a
+ * license before the purchase prompt is shown
+ */
+export interface QuotaOptions {
+  /** Identifies the counter, commands sharing an id share the quota */
+  id: string;
+  /** Number of free uses per period */
+  limit: number;
+  period: "day" | "month";
+}
+
+export interface QuotaUsage {
+  id: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  period: "day" | "month";
+  /** When the counter resets, as an ISO date string */
+  resetsOn: string;
+}
+
+interface QuotaCounter {
+  periodStart: string;
+  count: number;
+}
+
+const quotas = new WeakMap<
+  vscode.ExtensionContext,
+  Map<string, QuotaOptions>
+>();
+
+// Updates are chained per counter so concurrent invocations can't both take
+// the last free use
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Gets the start of the period containing a date, in local time
+ */
+export function getPeriodStart(period: "day" | "month", date: Date): Date {
+  return period === "day"
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    : new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Gets the start of the period after the one starting at a date
+ */
+export function getNextPeriodStart(
+  period: "day" | "month",
+  periodStart: Date,
+): Date {
+  return period === "day"
+    ? new Date(
+        periodStart.getFullYear(),
+        periodStart.getMonth(),
+        periodStart.getDate() + 1,
+      )
+    : new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, 1);
+}
+
+/**
+ * Registers a quota so its usage can be looked up by id
+ */
+export function registerQuota(
+  context: vscode.ExtensionContext,
+  options: QuotaOptions,
+): void {
+  let registered = quotas.get(context);
+  if (!registered) {
+    registered = new Map();
+    quotas.set(context, registered);
+  }
+  registered.set(options.id, options);
+}
+
+/**
+ * Gets the options of a registered quota
+ */
+export function getRegisteredQuota(
+  context: vscode.ExtensionContext,
+  id: string,
+): QuotaOptions | undefined {
+  return quotas.get(context)?.get(id);
+}
+
+/**
+ * Reads the counter for the current period, starting a new one if the
+ * stored counter belongs to an earlier period
+ */
+async function getCounter(
+  context: vscode.ExtensionContext,
+  options: QuotaOptions,
+  now: Date,
+): Promise<QuotaCounter> {
+  const periodStart = getPeriodStart(options.period, now).toISOString();
+  const value = await getStorage(context).getItem(`quota:${options.id}`);
+  const counter: QuotaCounter | null = value ? JSON.parse(value) : null;
+
+  if (!counter || counter.periodStart !== periodStart) {
+    return { periodStart, count: 0 };
+  }
+  return counter;
+}
+
+function toUsage(options: QuotaOptions, counter: QuotaCounter): QuotaUsage {
+  const used = Math.min(counter.count, options.limit);
+  return {
+    id: options.id,
+    limit: options.limit,
+    used,
+    remaining: options.limit - used,
+    period: options.period,
+    resetsOn: getNextPeriodStart(
+      options.period,
+      new Date(counter.periodStart),
+    ).toISOString(),
+  };
+}
+
+/**
+ * Gets how much of a quota has been used in the current period
+ */
+export async function getQuotaUsage(
+  context: vscode.ExtensionContext,
+  options: QuotaOptions,
+  now = new Date(),
+): Promise<QuotaUsage> {
+  return toUsage(options, await getCounter(context, options, now));
+}
+
+/**
+ * Takes one use from a quota
+ * @returns The usage after taking the use, or null if the quota is used up
+ */
+export function consumeQuota(
+  context: vscode.ExtensionContext,
+  options: QuotaOptions,
+  now = new Date(),
+): Promise<QuotaUsage | null> {
+  const previous = pendingUpdates.get(options.id) ?? Promise.resolve();
+  const update = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const counter = await getCounter(context, options, now);
+      if (counter.count >= options.limit) {
+        return null;
+      }
+
+      const next = { ...counter, count: counter.count + 1 };
+      await getStorage(context).setItem(
+        `quota:${options.id}`,
+        JSON.stringify(next),
+      );
+      return toUsage(options, next);
+    });
+
+  pendingUpdates.set(options.id, update);
+  const cleanUp = () => {
+    if (pendingUpdates.get(options.id) === update) {
+      pendingUpdates.delete(options.id);
+    }
+  };
+  update.then(cleanUp, cleanUp);
+  return update;
+}
@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+import type { LicenseData } from "../public/tag";
+import { onDidChangeLicense } from "./license-events";
+import { getEffectiveLicense } from "./license-validator";
+import { logger } from "./logger";
+import { getTrialLicense, onDidChangeTrial } from "./trial";
+
+/**
+ * Commands offered when the status bar item is clicked
+ */
+export interface StatusBarCommands {
+  activate: string;
+  purchase: string;
+  revoke: string;
+  details: string;
+}
+
+// Day counts in the text change without a license state change
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+const plural = (count: number, unit: string) =>
+  `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+const stripIcon = (text: string) => text.replace(/^\$\([\w-]+\) /, "");
+
+/**
+ * Gets the status bar text for a license
+ */
+function getStatusText(license: LicenseData | null): string {
+  if (license?.isTrial) {
+    if (!license.isValid) {
+      return "$(warning) Trial ended";
+    }
+    if (license.trialDaysRemaining !== undefined) {
+      return `$(clock) Trial ${plural(license.trialDaysRemaining, "day")}`;
+    }
+    if (license.trialInvocationsRemaining !== undefined) {
+      return `$(clock) Trial ${plural(license.trialInvocationsRemaining, "use")}`;
+    }
+    return "$(clock) Trial";
+  }
+  if (!license) {
+    return "$(lock) Unlicensed";
+  }
+  if (license.isExpired) {
+    return "$(warning) Expired";
+  }
+  if (!license.isValid) {
+    return "$(lock) Unlicensed";
+  }
+  if (license.offlineGraceDaysRemaining !== undefined) {
+    return `$(cloud-offline) Offline grace ${plural(license.offlineGraceDaysRemaining, "day")}`;
+  }
+  return license.tier
+    ? `$(verified) Licensed (${license.tier})`
+    : "$(verified) Licensed";
+}
+
+/**
+ * Gets the license shown in the status bar, falling back to the trial when
+ * there is no valid license
+ */
+async function getStatusLicense(
+  context: vscode.ExtensionContext,
+): Promise<LicenseData | null> {
+  const license = await getEffectiveLicense(context);
+  if (license?.isValid) {
+    return license;
+  }
+  return (await getTrialLicense(context)) ?? license;
+}
+
+/**
+ * Shows a QuickPick with the license commands that apply to the license
+ */
+async function showLicenseMenu(
+  context: vscode.ExtensionContext,
+  commands: StatusBarCommands,
+): Promise<void> {
+  const license = await getEffectiveLicense(context);
+  const items: (vscode.QuickPickItem & { command: string })[] = [
+    { label: "$(key) Activate License", command: commands.activate },
+    { label: "$(credit-card) Purchase License", command: commands.purchase },
+  ];
+  if (license) {
+    items.push(
+      { label: "$(info) Show License Details", command: commands.details },
+      { label: "$(trash) Revoke License", command: commands.revoke },
+    );
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `${context.extension.packageJSON.displayName} License`,
+    placeHolder: stripIcon(getStatusText(await getStatusLicense(context))),
+  });
+  if (selected) {
+    await vscode.commands.executeCommand(selected.command);
+  }
+}
+
+/**
+ * Creates a status bar item showing the license state, which opens the
+ * license commands when clicked and updates whenever the license or the
+ * trial changes
+ * @param context - The extension context
+ * @param commands - Ids of the license commands
+ */
+export function createLicenseStatusBar(
+  context: vscode.ExtensionContext,
+  commands: StatusBarCommands,
+): void {
+  const menuCommandId = `${context.extension.packageJSON.name}.licenseStatusCommand`;
+  const item = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+  );
+  item.name = `${context.extension.packageJSON.displayName} License`;
+  item.command = menuCommandId;
+
+  const update = async () => {
+    try {
+      const license = await getStatusLicense(context);
+      item.text = getStatusText(license);
+      item.tooltip = `${item.name}: ${stripIcon(item.text)}`;
+      item.show();
+    } catch (error) {
+      logger.warn("[statusBar] Failed to update license status:", error);
+    }
+  };
+
+  const interval = setInterval(update, REFRESH_INTERVAL_MS);
+  context.subscriptions.push(
+    item,
+    vscode.commands.registerCommand(menuCommandId, () =>
+      showLicenseMenu(context, commands),
+    ),
+    onDidChangeLicense(update),
+    onDidChangeTrial((changed) => {
+      if (changed === context) {
+        update();
+      }
+    }),
+    { dispose: () => clearInterval(interval) },
+  );
+  update();
+}
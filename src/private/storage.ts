@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { getCheckoutConfig } from "./config";
+
+/**
+ * Interface for storage implementations to persist license data
+ */
+export interface Storage {
+  /**
+   * Gets an item from storage
+   * @param key - The key to retrieve
+   * @returns Promise resolving to the stored value or null if not found
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Sets an item in storage
+   * @param key - The key to store
+   * @param value - The value to store
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Removes an item from storage
+   * @param key - The key to remove
+   */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Selects where license data is persisted: VS Code SecretStorage (default),
+ * the extension's globalState, memory only, a JSON file, or a custom `Storage`
+ */
+export type StorageOption =
+  | "secrets"
+  | "globalState"
+  | "memory"
+  | { type: "file"; path: string }
+  | Storage;
+
+/**
+ * Storage backed by VS Code's SecretStorage
+ */
+export class SecretStorageAdapter implements Storage {
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this.secrets.get(key)) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.secrets.store(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.secrets.delete(key);
+  }
+}
+
+/**
+ * Storage backed by a VS Code Memento such as `context.globalState`
+ */
+export class MementoStorage implements Storage {
+  constructor(private readonly memento: vscode.Memento) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.memento.get<string>(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.memento.update(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.memento.update(key, undefined);
+  }
+}
+
+/**
+ * Storage that only lives as long as the process, useful for tests
+ */
+export class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Storage backed by a JSON file, for hosts without VS Code storage
+ */
+export class JsonFileStorage implements Storage {
+  // Writes are chained so concurrent updates don't overwrite each other
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    await this.pending;
+    const items = await this.read();
+    return items[key] ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.update((items) => {
+      items[key] = value;
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.update((items) => {
+      delete items[key];
+    });
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, "utf8");
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private update(
+    mutate: (items: Record<string, string>) => void,
+  ): Promise<void> {
+    const next = this.pending.then(async () => {
+      const items = await this.read();
+      mutate(items);
+      await fs.promises.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(items), {
+        encoding: "utf8",
+        mode: 0o600,
+      });
+    });
+    // Keep the chain alive if a write fails
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * Creates a storage implementation from a storage option
+ */
+export function createStorage(
+  context: vscode.ExtensionContext,
+  option: StorageOption = "secrets",
+): Storage {
+  if (option === "secrets") {
+    return new SecretStorageAdapter(context.secrets);
+  }
+  if (option === "globalState") {
+    return new MementoStorage(context.globalState);
+  }
+  if (option === "memory") {
+    return new MemoryStorage();
+  }
+  if ("type" in option && option.type === "file") {
+    return new JsonFileStorage(option.path);
+  }
+  return option as Storage;
+}
+
+const storages = new WeakMap<object, Storage>();
+
+/**
+ * Gets the storage selected in the checkout configuration for an extension
+ * context. The instance is reused so in-memory storage keeps its contents.
+ */
+export function getStorage(context: vscode.ExtensionContext): Storage {
+  const config = getCheckoutConfig(context);
+  let storage = storages.get(config);
+  if (!storage) {
+    storage = createStorage(context, config.storage);
+    storages.set(config, storage);
+  }
+  return storage;
+}
@@ -0,0 +1,254 @@
+import * as vscode from "vscode";
+import { logger } from "./logger";
+import type { LicenseData } from "../public/tag";
+import { apiRequest, ApiUnreachableError } from "./api-client";
+import { trackFunnelEvent } from "./analytics";
+import { getCheckoutConfig } from "./config";
+import { getMachineId } from "./fingerprint";
+import { invalidateLicenseCache } from "./license-cache";
+import { getEffectiveLicense } from "./license-validator";
+import { getStorage } from "./storage";
+
+/**
+ * Lets paid commands run without a license for a number of days from first
+ * use, a number of invocations, or whichever runs out first
+ */
+export interface TrialOptions {
+  days?: number;
+  invocations?: number;
+}
+
+interface TrialState {
+  startedAt: string;
+  expiresOn?: string;
+  invocationLimit?: number;
+  invocationsUsed: number;
+  /** Whether the trial was granted by the server or started locally because the server couldn't answer */
+  source: "server" | "local";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Statuses with which the server refuses a trial, such as one already used */
+const TRIAL_DECLINED_STATUSES = [403, 409];
+
+type TrialListener = (context: vscode.ExtensionContext) => unknown;
+
+const trialListeners = new Set<TrialListener>();
+
+/**
+ * Calls a listener whenever the trial of an extension changes, such as when
+ * it starts or an invocation is counted, so views of the trial can update
+ * @param listener - Called with the context of the extension
+ */
+export function onDidChangeTrial(listener: TrialListener): vscode.Disposable {
+  trialListeners.add(listener);
+  return { dispose: () => trialListeners.delete(listener) };
+}
+
+async function getTrialState(
+  context: vscode.ExtensionContext,
+): Promise<TrialState | null> {
+  const value = await getStorage(context).getItem("trial-state");
+  return value ? JSON.parse(value) : null;
+}
+
+async function storeTrialState(
+  context: vscode.ExtensionContext,
+  state: TrialState,
+): Promise<void> {
+  await getStorage(context).setItem("trial-state", JSON.stringify(state));
+  invalidateLicenseCache(context);
+  for (const listener of trialListeners) {
+    try {
+      listener(context);
+    } catch (error) {
+      logger.error("Trial listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Requests a trial from the server, which remembers trials per machine so
+ * reinstalling the extension doesn't reset them. Falls back to a local trial
+ * unless the server explicitly refuses the trial.
+ */
+async function startTrial(
+  context: vscode.ExtensionContext,
+  options: TrialOptions,
+): Promise<TrialState> {
+  const now = new Date();
+  const localState: TrialState = {
+    startedAt: now.toISOString(),
+    expiresOn: options.days
+      ? new Date(now.getTime() + options.days * DAY_MS).toISOString()
+      : undefined,
+    invocationLimit: options.invocations,
+    invocationsUsed: 0,
+    source: "local",
+  };
+
+  let state = localState;
+  try {
+    const response = await apiRequest(context, "/trial", {
+      method: "POST",
+      body: {
+        extensionId: context.extension.id,
+        machineId: await getMachineId(context),
+        days: options.days,
+        invocations: options.invocations,
+      },
+    });
+
+    if (response.ok) {
+      const result = await response.json();
+      state = {
+        startedAt: result.startedAt ?? localState.startedAt,
+        expiresOn: result.expiresOn ?? localState.expiresOn,
+        invocationLimit: result.invocationLimit ?? localState.invocationLimit,
+        invocationsUsed: result.invocationsUsed ?? 0,
+        source: "server",
+      };
+    } else if (TRIAL_DECLINED_STATUSES.includes(response.status)) {
+      // The server declined the trial, for example because it was used up
+      state = { ...localState, expiresOn: localState.startedAt };
+    } else {
+      logger.warn(
+        `[startTrial] Trial request failed: ${response.status}, starting local trial`,
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof ApiUnreachableError)) {
+      throw error;
+    }
+    logger.info("Trial server unreachable, starting local trial");
+  }
+
+  await storeTrialState(context, state);
+  if (state.expiresOn !== state.startedAt) {
+    trackFunnelEvent(context, "trial-started", { source: state.source });
+  }
+  return state;
+}
+
+/**
+ * Converts a trial state to license data reporting the trial status
+ */
+function toTrialLicense(state: TrialState): LicenseData {
+  const now = Date.now();
+  const expiresAt = state.expiresOn
+    ? new Date(state.expiresOn).getTime()
+    : undefined;
+  const trialDaysRemaining =
+    expiresAt !== undefined
+      ? Math.max(0, Math.ceil((expiresAt - now) / DAY_MS))
+      : undefined;
+  const trialInvocationsRemaining =
+    state.invocationLimit !== undefined
+      ? Math.max(0, state.invocationLimit - state.invocationsUsed)
+      : undefined;
+
+  const isValid =
+    (expiresAt === undefined || expiresAt > now) &&
+    (trialInvocationsRemaining === undefined || trialInvocationsRemaining > 0);
+
+  return {
+    isValid,
+    isExpired: !isValid,
+    expiresOn: state.expiresOn,
+    isTrial: true,
+    trialDaysRemaining,
+    trialInvocationsRemaining,
+  };
+}
+
+/**
+ * Gets the trial license if a trial is configured and has been started
+ * @returns Trial license data, or null when there is no trial
+ */
+export async function getTrialLicense(
+  context: vscode.ExtensionContext,
+): Promise<LicenseData | null> {
+  if (!getCheckoutConfig(context).trial) {
+    return null;
+  }
+
+  const state = await getTrialState(context);
+  return state ? toTrialLicense(state) : null;
+}
+
+/**
+ * Gets the trial license, starting the trial on first use
+ * @returns Trial license data, or null when no trial is configured
+ */
+export async function getOrStartTrialLicense(
+  context: vscode.ExtensionContext,
+): Promise<LicenseData | null> {
+  const options = getCheckoutConfig(context).trial;
+  if (!options) {
+    return null;
+  }
+
+  const state =
+    (await getTrialState(context)) ?? (await startTrial(context, options));
+  return toTrialLicense(state);
+}
+
+/**
+ * Counts an invocation of a paid command against the trial
+ */
+export async function recordTrialInvocation(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const state = await getTrialState(context);
+  if (!state) {
+    return;
+  }
+
+  await storeTrialState(context, {
+    ...state,
+    invocationsUsed: state.invocationsUsed + 1,
+  });
+}
+
+/**
+ * Handles a `/trial` link. A trial that hasn't started yet only starts after
+ * the user confirms, so opening a link can't use up the trial unnoticed.
+ */
+export async function startTrialFromLink(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const name = context.extension.packageJSON.displayName;
+  if (!getCheckoutConfig(context).trial) {
+    await vscode.window.showInformationMessage(
+      `${name} does not offer a trial.`,
+    );
+    return;
+  }
+  if ((await getEffectiveLicense(context))?.isValid) {
+    await vscode.window.showInformationMessage(
+      `You already have a ${name} license.`,
+    );
+    return;
+  }
+
+  if (!(await getTrialState(context))) {
+    const start = "Start Trial";
+    const choice = await vscode.window.showInformationMessage(
+      `Start your ${name} trial now?`,
+      { modal: true },
+      start,
+    );
+    if (choice !== start) {
+      logger.info("[startTrialFromLink] Trial link declined by the user");
+      return;
+    }
+  }
+
+  const trial = await getOrStartTrialLicense(context);
+  await vscode.window.showInformationMessage(
+    trial?.isValid
+      ? `Your ${name} trial is active.`
+      : `Your ${name} trial has ended.`,
+  );
+}
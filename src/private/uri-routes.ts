@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+
+/**
+ * Handles a URI opened for the extension, such as
+ * `vscode://publisher.extension/open-settings?section=license`
+ * @param params - The query parameters of the URI
+ * @param uri - The full URI
+ */
+export type UriRouteHandler = (
+  params: URLSearchParams,
+  uri: vscode.Uri,
+) => void | Promise<void>;
+
+/** Paths handled by code-checkout itself */
+export const BUILT_IN_URI_PATHS = [
+  "/activate",
+  "/deactivate",
+  "/refresh",
+  "/trial",
+  "/open-license",
+];
+
+const routes = new WeakMap<
+  vscode.ExtensionContext,
+  Map<string, UriRouteHandler>
+>();
+
+function normalizePath(path: string): string {
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+/**
+ * Registers a handler for a URI path, handled alongside the built-in
+ * code-checkout routes
+ * @param context - The extension context
+ * @param path - The URI path, such as `/open-settings`
+ * @param handler - Called when a URI with the path is opened
+ * @returns A disposable that removes the route
+ * @throws Error if the path is a built-in route or already registered
+ */
+export function registerUriRoute(
+  context: vscode.ExtensionContext,
+  path: string,
+  handler: UriRouteHandler,
+): vscode.Disposable {
+  const routePath = normalizePath(path);
+  if (BUILT_IN_URI_PATHS.includes(routePath)) {
+    throw new Error(`URI route ${routePath} is built into code-checkout`);
+  }
+
+  let contextRoutes = routes.get(context);
+  if (!contextRoutes) {
+    contextRoutes = new Map();
+    routes.set(context, contextRoutes);
+  }
+  if (contextRoutes.has(routePath)) {
+    throw new Error(`URI route ${routePath} is already registered`);
+  }
+
+  contextRoutes.set(routePath, handler);
+  return {
+    dispose: () => {
+      if (contextRoutes.get(routePath) === handler) {
+        contextRoutes.delete(routePath);
+      }
+    },
+  };
+}
+
+/**
+ * Gets the handler registered for a URI path
+ * @returns The handler, or undefined if the path isn't a registered route
+ */
+export function getUriRoute(
+  context: vscode.ExtensionContext,
+  path: string,
+): UriRouteHandler | undefined {
+  return routes.get(context)?.get(normalizePath(path));
+}
+
+/**
+ * Checks if a URI path is handled by code-checkout, either as a built-in
+ * route or a registered one
+ */
+export function isCheckoutUriPath(
+  context: vscode.ExtensionContext,
+  path: string,
+): boolean {
+  return (
+    BUILT_IN_URI_PATHS.includes(normalizePath(path)) ||
+    getUriRoute(context, path) !== undefined
+  );
+}
@@ -1,25 +1,91 @@
-import * as vscode from "vscode";
+import type * as vscode from "vscode";
+import { getCheckoutConfig } from "./config";
+import { getVSCode } from "./host";
+import { getStorage } from "./storage";
 
 const API_ENDPOINT = "https://api.riff-tech.com/v1";
 const DEV_API_ENDPOINT = "https://dev-api.riff-tech.com/v1";
+const WEB_ENDPOINT = "https://codecheckout.dev";
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
 
 export async function setTestMode(
   context: vscode.ExtensionContext,
   testMode: boolean,
 ) {
-  await context.secrets.store("test-mode", testMode.toString());
+  await getStorage(context).setItem("test-mode", testMode.toString());
 }
 
 export async function isTestMode(
   context: vscode.ExtensionContext,
 ): Promise<boolean> {
-  const testMode = await context.secrets.get("test-mode");
+  const testMode = await getStorage(context).getItem("test-mode");
   return testMode === "true";
 }
 
+/**
+ * Validates a configured base URL and removes trailing slashes. Plain HTTP is
+ * only accepted for local servers.
+ * @param value - The configured URL
+ * @param name - Name of the setting, used in the error message
+ */
+export function normalizeBaseUrl(value: string, name: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+
+  const isLocal = LOCAL_HOSTNAMES.includes(url.hostname);
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocal)) {
+    throw new Error(`${name} must use https unless it points to localhost`);
+  }
+  return url.toString().replace(/\/+$/, "");
+}
+
+/**
+ * Gets a URL override from an environment variable. Overrides only apply
+ * while developing or testing the extension, never to installed extensions.
+ */
+function getEnvironmentOverride(
+  context: vscode.ExtensionContext,
+  variable: string,
+): string | undefined {
+  const vscode = getVSCode();
+  if (!vscode || context.extensionMode === vscode.ExtensionMode.Production) {
+    return undefined;
+  }
+  return process.env[variable] || undefined;
+}
+
+/**
+ * Gets the base URL of the license API, from the `CODE_CHECKOUT_API_URL`
+ * environment variable during development, the `apiUrl` option, or the
+ * default endpoint for the current mode
+ */
 export async function getApiUrl(
   context: vscode.ExtensionContext,
 ): Promise<string> {
+  const override =
+    getEnvironmentOverride(context, "CODE_CHECKOUT_API_URL") ??
+    getCheckoutConfig(context).apiUrl;
+  if (override) {
+    return normalizeBaseUrl(override, "apiUrl");
+  }
+
   const testMode = await isTestMode(context);
   return testMode ? DEV_API_ENDPOINT : API_ENDPOINT;
 }
+
+/**
+ * Gets the base URL of the code-checkout website, from the
+ * `CODE_CHECKOUT_WEB_URL` environment variable during development, the
+ * `webUrl` option, or the default website
+ */
+export function getWebUrl(context: vscode.ExtensionContext): string {
+  const override =
+    getEnvironmentOverride(context, "CODE_CHECKOUT_WEB_URL") ??
+    getCheckoutConfig(context).webUrl;
+  return override ? normalizeBaseUrl(override, "webUrl") : WEB_ENDPOINT;
+}
@@ -1,46 +1,126 @@
 import * as vscode from "vscode";
 import * as path from "path";
+import * as os from "os";
+import {
+  configureLogger,
+  logger,
+  LogLevel,
+  registerSecret,
+} from "../private/logger";
 import {
-  revokeLicense,
   validateLicense,
   getStoredLicense,
   generateLicenseKey,
   storeLicenseKey,
+  migrateLicenseKeySetting,
+  importLicenseKeyFromSetting,
+  initializeLicenseState,
+  removeStoredLicense,
+  importOfflineActivation,
+  getEffectiveLicense,
 } from "../private/license-validator";
-import { getApiUrl, isTestMode, setTestMode } from "../private/utils";
-
-const WEB_URL = "https://codecheckout.dev";
+import {
+  deactivateThisMachine,
+  revokeLicense,
+} from "../private/license-actions";
+import {
+  createOfflineActivationRequest,
+  hasPendingOfflineActivation,
+} from "../private/offline-activation";
+import { getMachineId } from "../private/fingerprint";
+import { trustLicensePublicKey } from "../private/license-token";
+import { listActivatedMachines, deactivateMachine } from "../private/machines";
+import {
+  getApiUrl,
+  getWebUrl,
+  isTestMode,
+  setTestMode,
+} from "../private/utils";
+import {
+  assertValidValidationPolicy,
+  setCheckoutConfig,
+  ValidationPolicy,
+} from "../private/config";
+import { TierDefinition } from "../private/entitlements";
+import {
+  getTrialLicense,
+  startTrialFromLink,
+  TrialOptions,
+} from "../private/trial";
+import {
+  getUriRoute,
+  isCheckoutUriPath,
+  registerUriRoute,
+  UriRouteHandler,
+} from "../private/uri-routes";
+import {
+  consumeCheckoutState,
+  createCheckoutState,
+} from "../private/checkout-state";
+import { apiRequest } from "../private/api-client";
+import { getCachedLicense } from "../private/license-cache";
+import { createLicenseStatusBar } from "../private/status-bar";
+import { showLicenseDetails } from "../private/license-details";
+import { showExpiryReminder } from "../private/expiry-reminders";
+import {
+  flushAnalytics,
+  isAnalyticsEnabled,
+  LicenseState,
+  startAnalytics,
+  trackCommandEvent,
+  trackFunnelEvent,
+} from "../private/analytics";
+import { MockBackendOptions, MockScenario } from "../private/mock-backend";
+import {
+  Storage,
+  StorageOption,
+  SecretStorageAdapter,
+  MementoStorage,
+  MemoryStorage,
+  JsonFileStorage,
+} from "../private/storage";
 
-interface CommandAnalytics {
-  extensionId: string;
-  commandId: string;
-  timestamp: string;
-  hasValidLicense: boolean;
-}
+export type {
+  ValidationPolicy,
+  Storage,
+  StorageOption,
+  TierDefinition,
+  TrialOptions,
+  MockBackendOptions,
+  MockScenario,
+  LogLevel,
+  UriRouteHandler,
+};
+export { SecretStorageAdapter, MementoStorage, MemoryStorage, JsonFileStorage };
+export { flushAnalytics, registerUriRoute };
 
 /**
- * Tracks command execution analytics
- * @param analytics - The analytics data to track
+ * Gets the license state reported with command analytics. The result of a
+ * recent license check is used when cached, storage is only read otherwise.
  */
-async function trackCommandAnalytics(
+async function getLicenseState(
   context: vscode.ExtensionContext,
-  analytics: CommandAnalytics,
-): Promise<void> {
-  try {
-    const url = await getApiUrl(context);
-    const ANALYTICS_ENDPOINT = `${url}/analytics/events`;
+): Promise<LicenseState> {
+  // Only valid licenses and the absence of one are cached
+  const cached = getCachedLicense(context);
+  if (cached) {
+    if (!cached.value) {
+      return "unlicensed";
+    }
+    return cached.value.isTrial ? "trial" : "licensed";
+  }
 
-    await fetch(ANALYTICS_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(analytics),
-    });
-  } catch (error) {
-    // Silently fail analytics to not impact user experience
-    console.error("Failed to track analytics:", error);
+  const license = await getEffectiveLicense(context);
+  if (license?.isValid) {
+    return "licensed";
   }
+  if ((await getTrialLicense(context))?.isValid) {
+    return "trial";
+  }
+  if (license?.isExpired) {
+    return "expired";
+  }
+  return license ? "invalid" : "unlicensed";
 }
 
 /**
@@ -55,16 +135,31 @@ function wrapCommandWithAnalytics(
   callback: (...args: any[]) => any,
 ): (...args: any[]) => Promise<any> {
   return async (...args: any[]) => {
-    const hasValidLicense = (await getStoredLicense(context)) !== undefined;
+    if (!isAnalyticsEnabled(context)) {
+      return callback(...args);
+    }
 
-    trackCommandAnalytics(context, {
-      extensionId: context.extension.id,
-      commandId,
-      timestamp: new Date().toISOString(),
-      hasValidLicense,
-    });
+    // Read before the command runs, as the command may change the license,
+    // but not awaited so the command doesn't wait for it
+    const licenseState = getLicenseState(context);
+    const startedAt = Date.now();
+    let error: unknown;
 
-    return callback(...args);
+    try {
+      return await callback(...args);
+    } catch (commandError) {
+      error = commandError ?? new Error("Unknown error");
+      throw commandError;
+    } finally {
+      const durationMs = Date.now() - startedAt;
+      licenseState
+        .then((state) =>
+          trackCommandEvent(context, { commandId, durationMs, error }, state),
+        )
+        .catch((stateError) => {
+          logger.debug("Failed to track command analytics:", stateError);
+        });
+    }
   };
 }
 
@@ -93,13 +188,25 @@ function getExtensionInfo(
 
 /**
  * Handles the result of license validation and shows appropriate messages
+ * @param context - The extension context
  * @param result - The validation result from validateLicense
+ * @param source - How the license was activated, reported with analytics
  * @returns True if the license is valid, false otherwise
  */
-async function handleLicenseValidationResult(result: {
-  isValid: boolean;
-  message?: string;
-}): Promise<boolean> {
+async function handleLicenseValidationResult(
+  context: vscode.ExtensionContext,
+  result: {
+    isValid: boolean;
+    message?: string;
+  },
+  source: "command" | "deep-link" | "setting" | "offline",
+): Promise<boolean> {
+  trackFunnelEvent(
+    context,
+    result.isValid ? "activation-succeeded" : "activation-failed",
+    { source, message: result.isValid ? undefined : result.message },
+  );
+
   if (result.isValid) {
     await vscode.window.showInformationMessage(
       "License activated successfully!",
@@ -113,6 +220,30 @@ async function handleLicenseValidationResult(result: {
   }
 }
 
+/**
+ * Imports a license key pasted into the `<name>.license-key` setting,
+ * moving it to storage and validating it
+ */
+async function importAndValidateLicenseKeySetting(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  try {
+    const licenseKey = await importLicenseKeyFromSetting(context);
+    if (!licenseKey) {
+      return;
+    }
+
+    const result = await validateLicense(context, licenseKey);
+    await handleLicenseValidationResult(context, result, "setting");
+  } catch (error) {
+    await vscode.window.showErrorMessage(
+      `Failed to import license key from settings: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+  }
+}
+
 /**
  * Handles incoming URIs for the extension
  */
@@ -129,8 +260,77 @@ async function handleUri(
         throw new Error("No license key provided");
       }
 
+      // Links that don't come from a checkout started in this editor could
+      // replace the user's license, so they need to be confirmed
+      const rejection = await consumeCheckoutState(
+        context,
+        licenseKey,
+        params.get("state"),
+      );
+      if (rejection) {
+        logger.warn(`[handleUri] Unverified activation link: ${rejection}`);
+        const activate = "Activate";
+        const choice = await vscode.window.showWarningMessage(
+          `A link is trying to activate a ${context.extension.packageJSON.displayName} license key ending in ${licenseKey.slice(-4)}. Only continue if you just purchased this license.`,
+          { modal: true },
+          activate,
+        );
+        if (choice !== activate) {
+          logger.warn("[handleUri] Activation link rejected by the user");
+          return;
+        }
+      }
+
       const result = await validateLicense(context, licenseKey);
-      await handleLicenseValidationResult(result);
+      await handleLicenseValidationResult(context, result, "deep-link");
+    };
+
+    const handleDeactivate = async () => {
+      if (await deactivateThisMachine(context)) {
+        trackFunnelEvent(context, "license-revoked", { source: "deep-link" });
+      }
+    };
+
+    // Validates the stored license online, for example after the
+    // subscription was changed on the website
+    const handleRefresh = async () => {
+      const licenseKey = await getStoredLicense(context);
+      if (!licenseKey) {
+        await vscode.window.showInformationMessage(
+          "No license is activated on this machine.",
+        );
+        return;
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Validating license...",
+          cancellable: false,
+        },
+        () => validateLicense(context, licenseKey),
+      );
+      if (result.serverUnreachable) {
+        await vscode.window.showWarningMessage(
+          `Could not reach the license server: ${result.message || "Unknown error"}`,
+        );
+      } else if (result.isValid) {
+        await vscode.window.showInformationMessage(
+          "License refreshed successfully!",
+        );
+      } else {
+        await vscode.window.showErrorMessage(
+          `License validation failed: ${result.message || "Invalid license"}`,
+        );
+      }
+    };
+
+    const handleOpenLicense = async () => {
+      const { commandId: revokeLicenseCommandId } = getExtensionInfo(
+        context.extensionPath,
+        "revokeLicenseCommand",
+      );
+      await showLicenseDetails(context, revokeLicenseCommandId);
     };
 
     switch (uri.path) {
@@ -138,12 +338,34 @@ async function handleUri(
         await handleActivate();
         break;
 
-      default:
-        console.log(`Unhandled URI path: ${uri.path}`);
+      case "/deactivate":
+        await handleDeactivate();
+        break;
+
+      case "/refresh":
+        await handleRefresh();
+        break;
+
+      case "/trial":
+        await startTrialFromLink(context);
+        break;
+
+      case "/open-license":
+        await handleOpenLicense();
         break;
+
+      default: {
+        const route = getUriRoute(context, uri.path);
+        if (route) {
+          await route(params, uri);
+        } else {
+          logger.warn(`Unhandled URI path: ${uri.path}`);
+        }
+        break;
+      }
     }
   } catch (error) {
-    console.error("Error handling URI:", error);
+    logger.error("Error handling URI:", error);
     await vscode.window.showErrorMessage(
       `Failed to process the request: ${
         error instanceof Error ? error.message : "Unknown error"
@@ -155,6 +377,34 @@ async function handleUri(
 export type CheckoutOptions = {
   testMode?: boolean;
   purchaseMdFile?: string;
+  /** Offline grace period, revalidation interval and hard-fail date */
+  validation?: ValidationPolicy;
+  /** Where license data is persisted, defaults to SecretStorage */
+  storage?: StorageOption;
+  /** Import license keys that users paste into the `<name>.license-key` setting */
+  importKeyFromSetting?: boolean;
+  /** Product tiers from lowest to highest, used by `minimumTier` and `hasEntitlement` */
+  tiers?: TierDefinition[];
+  /** Let paid commands run without a license for a number of days or uses */
+  trial?: TrialOptions;
+  /** Base URL of a staging or self-hosted license API, http is allowed for localhost */
+  apiUrl?: string;
+  /** PEM public keys of a self-hosted license API by key id, used to verify its license tokens */
+  tokenPublicKeys?: Record<string, string>;
+  /** Base URL of the website hosting the activation pages */
+  webUrl?: string;
+  /** Answer license API requests from a local mock, for demos and tests only */
+  mockBackend?: MockBackendOptions;
+  /** Most verbose level that is logged, defaults to `warn` */
+  logLevel?: LogLevel;
+  /** Also write log lines to a "Code Checkout" output channel */
+  logToOutputChannel?: boolean;
+  /** Show the license state in the status bar */
+  statusBar?: boolean;
+  /** Remind users before the license expires, `true` reminds 14, 3 and 1 days before */
+  expiryReminders?: boolean | number[];
+  /** Send command analytics, defaults to true. Nothing is sent while VS Code telemetry is disabled */
+  analytics?: boolean;
   [key: string]: any;
 };
 
@@ -169,7 +419,68 @@ export function injectCheckoutCommands(
 ) {
   return async (context: vscode.ExtensionContext) => {
     try {
+      let outputChannel: vscode.OutputChannel | undefined;
+      if (options?.logToOutputChannel) {
+        outputChannel = vscode.window.createOutputChannel("Code Checkout");
+        context.subscriptions.push(outputChannel);
+      }
+      configureLogger({ level: options?.logLevel, outputChannel });
+
+      assertValidValidationPolicy(options?.validation);
+      setCheckoutConfig(context, {
+        validation: options?.validation,
+        storage: options?.storage,
+        tiers: options?.tiers,
+        trial: options?.trial,
+        apiUrl: options?.apiUrl,
+        webUrl: options?.webUrl,
+        mockBackend: options?.mockBackend,
+      });
+      for (const [kid, publicKey] of Object.entries(
+        options?.tokenPublicKeys ?? {},
+      )) {
+        trustLicensePublicKey(kid, publicKey);
+      }
+      // Kept in the configured storage, so it needs the config set first
       await setTestMode(context, options?.testMode || false);
+      if (
+        options?.mockBackend &&
+        context.extensionMode === vscode.ExtensionMode.Production
+      ) {
+        logger.warn(
+          "The mock license backend is enabled in a production build, licenses are not checked against the license server",
+        );
+      }
+
+      startAnalytics(context, options?.analytics !== false);
+
+      // Move a license key left in user settings by earlier versions
+      await migrateLicenseKeySetting(context);
+      await initializeLicenseState(context);
+
+      if (options?.expiryReminders) {
+        // Not awaited so activation doesn't wait for the reminder to be closed
+        showExpiryReminder(
+          context,
+          Array.isArray(options.expiryReminders)
+            ? options.expiryReminders
+            : undefined,
+        ).catch((error) => {
+          logger.warn("Failed to show expiry reminder:", error);
+        });
+      }
+
+      if (options?.importKeyFromSetting) {
+        await importAndValidateLicenseKeySetting(context);
+        const settingName = `${context.extension.packageJSON.name}.license-key`;
+        context.subscriptions.push(
+          vscode.workspace.onDidChangeConfiguration(async (event) => {
+            if (event.affectsConfiguration(settingName)) {
+              await importAndValidateLicenseKeySetting(context);
+            }
+          }),
+        );
+      }
 
       let handlerRegistered = false;
       const originalRegisterUriHandler = vscode.window.registerUriHandler;
@@ -200,7 +511,7 @@ export function injectCheckoutCommands(
         handlerRegistered = true;
         const originalHandleUri = handler.handleUri;
         handler.handleUri = async (uri: vscode.Uri) => {
-          if (uri.path === "/activate") {
+          if (isCheckoutUriPath(context, uri.path)) {
             await handleUri(uri, context);
           } else {
             await originalHandleUri.call(handler, uri);
@@ -240,6 +551,22 @@ export function injectCheckoutCommands(
         context.extensionPath,
         "purchaseLicenseCommand",
       );
+      const { commandId: licenseDetailsCommandId } = getExtensionInfo(
+        context.extensionPath,
+        "licenseDetailsCommand",
+      );
+      const { commandId: activateOfflineCommandId } = getExtensionInfo(
+        context.extensionPath,
+        "activateOfflineCommand",
+      );
+      const { commandId: manageMachinesCommandId } = getExtensionInfo(
+        context.extensionPath,
+        "manageMachinesCommand",
+      );
+      const { commandId: deactivateMachineCommandId } = getExtensionInfo(
+        context.extensionPath,
+        "deactivateMachineCommand",
+      );
 
       // Register command for manual activation with analytics
       context.subscriptions.push(
@@ -266,7 +593,7 @@ export function injectCheckoutCommands(
 
               try {
                 const result = await validateLicense(context, licenseKey);
-                await handleLicenseValidationResult(result);
+                await handleLicenseValidationResult(context, result, "command");
               } catch (error) {
                 await vscode.window.showErrorMessage(
                   `Failed to validate license: ${
@@ -287,7 +614,9 @@ export function injectCheckoutCommands(
             context,
             revokeLicenseCommandId,
             async () => {
-              await revokeLicense(context);
+              if (await revokeLicense(context)) {
+                trackFunnelEvent(context, "license-revoked");
+              }
             },
           ),
         ),
@@ -306,8 +635,81 @@ export function injectCheckoutCommands(
           ),
         ),
       );
+
+      // Register a command for showing the license details panel
+      context.subscriptions.push(
+        vscode.commands.registerCommand(
+          licenseDetailsCommandId,
+          wrapCommandWithAnalytics(
+            context,
+            licenseDetailsCommandId,
+            async () => {
+              await showLicenseDetails(context, revokeLicenseCommandId);
+            },
+          ),
+        ),
+      );
+
+      // Register a command for activating without internet access
+      context.subscriptions.push(
+        vscode.commands.registerCommand(
+          activateOfflineCommandId,
+          wrapCommandWithAnalytics(
+            context,
+            activateOfflineCommandId,
+            async () => {
+              await activateLicenseOffline(context);
+            },
+          ),
+        ),
+      );
+
+      // Register a command for listing and releasing activated machines
+      context.subscriptions.push(
+        vscode.commands.registerCommand(
+          manageMachinesCommandId,
+          wrapCommandWithAnalytics(
+            context,
+            manageMachinesCommandId,
+            async () => {
+              await manageActivatedMachines(context);
+            },
+          ),
+        ),
+      );
+
+      // Register a command for releasing this machine's seat
+      context.subscriptions.push(
+        vscode.commands.registerCommand(
+          deactivateMachineCommandId,
+          wrapCommandWithAnalytics(
+            context,
+            deactivateMachineCommandId,
+            async () => {
+              try {
+                await deactivateThisMachine(context);
+              } catch (error) {
+                await vscode.window.showErrorMessage(
+                  `Failed to deactivate this machine: ${
+                    error instanceof Error ? error.message : "Unknown error"
+                  }`,
+                );
+              }
+            },
+          ),
+        ),
+      );
+
+      if (options?.statusBar) {
+        createLicenseStatusBar(context, {
+          activate: activateLicenseCommandId,
+          purchase: purchaseLicenseCommandId,
+          revoke: revokeLicenseCommandId,
+          details: licenseDetailsCommandId,
+        });
+      }
     } catch (error) {
-      console.error("Failed to initialize license management:", error);
+      logger.error("Failed to initialize license management:", error);
       throw error;
     }
   };
@@ -348,14 +750,21 @@ export async function getCheckoutUrl(
   options?: CheckoutUrlOptions,
 ) {
   try {
-    // Store the license key before activating
-    // this ensures that the key is always stored,
-    // even if the user doesn't enter it or use the deeplink to activate it
-    // If the license key is not validated on the server it will be useless anyway
+    // Without a valid stored license the key is stored right away, so the
+    // purchase is picked up by the next license check even if the activation
+    // link is never opened. A valid license is only replaced once the
+    // activation link validates the new key, so an abandoned checkout keeps it.
     const licenseKey = generateLicenseKey();
-    await storeLicenseKey(context, licenseKey);
+    // The key appears in the logged checkout URL even when it isn't stored
+    registerSecret(licenseKey);
+    if (!(await getEffectiveLicense(context))?.isValid) {
+      await storeLicenseKey(context, licenseKey);
+    }
+    // Only activation links carrying this nonce are accepted without asking
+    const state = await createCheckoutState(context, licenseKey);
 
     const apiUrl = await getApiUrl(context);
+    const webUrl = getWebUrl(context);
     const { id: extensionId, packageJSON } = context.extension;
     const name = packageJSON.displayName;
     const appScheme = vscode.env.uriScheme;
@@ -365,30 +774,33 @@ export async function getCheckoutUrl(
 
     // Create and encode the redirect URI first
     const redirectUri = encodeURIComponent(
-      `${appUri}${extensionId}/activate?key=${licenseKey}`,
+      `${appUri}${extensionId}/activate?key=${licenseKey}&state=${state}`,
     );
     const successUrl = customSuccessUrl
-      ? `${customSuccessUrl}?key=${licenseKey}&ideName=${appScheme}&id=${extensionId}`
+      ? `${customSuccessUrl}?key=${licenseKey}&ideName=${appScheme}&id=${extensionId}&state=${state}`
       : encodeURIComponent(
-          `${WEB_URL}/activate?key=${licenseKey}&name=${name}&redirectUri=${redirectUri}`,
+          `${webUrl}/activate?key=${licenseKey}&name=${name}&redirectUri=${redirectUri}`,
         );
     const cancelUrl = customCancelUrl
       ? `${customCancelUrl}?ideName=${appScheme}&id=${extensionId}`
       : encodeURIComponent(`${apiUrl}/ide-redirect?target=${appUri}`);
     const testParam = (await isTestMode(context)) ? "&testMode=true" : "";
-    const purchaseUrl = `${apiUrl}/${extensionId}/checkout?licenseKey=${licenseKey}&successUrl=${successUrl}&cancelUrl=${cancelUrl}${testParam}`;
+    const checkoutPath = `/${extensionId}/checkout?licenseKey=${licenseKey}&successUrl=${successUrl}&cancelUrl=${cancelUrl}${testParam}`;
 
-    console.log("purchaseUrl", purchaseUrl);
-    const purchaseUrlObject = new URL(purchaseUrl);
-
-    console.log("purchaseUrlObject", purchaseUrlObject);
+    logger.debug(
+      "[getCheckoutUrl] Requesting checkout:",
+      `${apiUrl}${checkoutPath}`,
+    );
 
     // fetch the purchase url
-    const response = await fetch(purchaseUrlObject.toString());
+    const response = await apiRequest(context, checkoutPath);
 
-    console.log("response", response);
+    logger.debug("[getCheckoutUrl] Checkout response status:", response.status);
+    if (!response.ok) {
+      throw new Error(`Checkout request failed with status ${response.status}`);
+    }
     const { url } = await response.json();
-    console.log("url", url);
+    logger.debug("[getCheckoutUrl] Checkout URL:", url);
 
     return url;
   } catch (error) {
@@ -410,6 +822,10 @@ async function activateLicenseOnline(
 ): Promise<void> {
   try {
     const url = await getCheckoutUrl(context);
+    const openCheckout = async () => {
+      await vscode.env.openExternal(vscode.Uri.parse(url));
+      trackFunnelEvent(context, "checkout-opened");
+    };
     if (purchaseMdFile) {
       // Resolve the purchase.md file path relative to the extension's installation directory
       const absolutePurchasePath = path.join(
@@ -436,12 +852,12 @@ async function activateLicenseOnline(
         );
 
         if (result === openButton) {
-          await vscode.env.openExternal(vscode.Uri.parse(url));
+          await openCheckout();
         }
       } catch (error) {
-        console.error(`Failed to open purchase file: ${error}`);
+        logger.warn(`Failed to open purchase file: ${error}`);
         // Fallback to direct URL open if file cannot be opened
-        await vscode.env.openExternal(vscode.Uri.parse(url));
+        await openCheckout();
       }
     } else {
       await vscode.window.withProgress(
@@ -451,7 +867,7 @@ async function activateLicenseOnline(
           cancellable: false,
         },
         async () => {
-          await vscode.env.openExternal(vscode.Uri.parse(url));
+          await openCheckout();
         },
       );
     }
@@ -461,3 +877,174 @@ async function activateLicenseOnline(
     throw new Error(`Failed to open activation website: ${errorMessage}`);
   }
 }
+
+/**
+ * Activates a license on a machine without internet access. The user saves
+ * an activation request file, exchanges it for a signed response file on a
+ * connected machine and imports the response.
+ * @param context - The VS Code extension context
+ */
+async function activateLicenseOffline(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const createRequest = "Create Activation Request";
+  const importResponse = "Import Activation Response";
+  const action = (await hasPendingOfflineActivation(context))
+    ? await vscode.window.showQuickPick([importResponse, createRequest], {
+        title: "Activate Offline",
+        ignoreFocusOut: true,
+      })
+    : createRequest;
+
+  try {
+    if (action === createRequest) {
+      const licenseKey = await vscode.window.showInputBox({
+        prompt: "Enter your license key",
+        placeHolder: "XXXXXXXX-XXXXXXXXXXX",
+        value: (await getStoredLicense(context)) ?? undefined,
+        ignoreFocusOut: true,
+        validateInput: (value: string) => {
+          return value.trim().length > 0 ? null : "License key cannot be empty";
+        },
+      });
+      if (!licenseKey) {
+        return; // User cancelled
+      }
+
+      const requestUri = await vscode.window.showSaveDialog({
+        title: "Save Activation Request",
+        defaultUri: vscode.Uri.file(
+          path.join(
+            os.homedir(),
+            `${context.extension.packageJSON.name}-activation-request.json`,
+          ),
+        ),
+        filters: { JSON: ["json"] },
+      });
+      if (!requestUri) {
+        return; // User cancelled
+      }
+
+      const request = await createOfflineActivationRequest(
+        context,
+        licenseKey.trim(),
+      );
+      await vscode.workspace.fs.writeFile(
+        requestUri,
+        Buffer.from(JSON.stringify(request, null, 2)),
+      );
+
+      const result = await vscode.window.showInformationMessage(
+        `Activation request saved. On a machine with internet access, upload it at ${getWebUrl(context)}/activate-offline and bring the response file back to this machine.`,
+        { modal: true },
+        importResponse,
+      );
+      if (result !== importResponse) {
+        return;
+      }
+    } else if (action !== importResponse) {
+      return; // User cancelled
+    }
+
+    const [responseUri] =
+      (await vscode.window.showOpenDialog({
+        title: "Import Activation Response",
+        canSelectMany: false,
+        filters: { JSON: ["json"] },
+      })) ?? [];
+    if (!responseUri) {
+      return; // User cancelled
+    }
+
+    const contents = await vscode.workspace.fs.readFile(responseUri);
+    const result = await importOfflineActivation(
+      context,
+      Buffer.from(contents).toString("utf8"),
+    );
+    await handleLicenseValidationResult(context, result, "offline");
+  } catch (error) {
+    await vscode.window.showErrorMessage(
+      `Failed to activate offline: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+  }
+}
+
+/**
+ * Lists the machines activated with the stored license in a QuickPick and
+ * releases the seat of the selected machine
+ * @param context - The VS Code extension context
+ */
+async function manageActivatedMachines(
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  const licenseKey = await getStoredLicense(context);
+  if (!licenseKey) {
+    await vscode.window.showInformationMessage(
+      "No license is activated on this machine.",
+    );
+    return;
+  }
+
+  try {
+    const currentMachineId = await getMachineId(context);
+    const machines = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Loading activated machines...",
+        cancellable: false,
+      },
+      () => listActivatedMachines(context, licenseKey, currentMachineId),
+    );
+
+    if (machines.length === 0) {
+      await vscode.window.showInformationMessage(
+        "No machines are activated with this license.",
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      machines.map((machine) => ({
+        label: machine.name || machine.machineId.substring(0, 12),
+        description: machine.isCurrent ? "This machine" : undefined,
+        detail: machine.lastSeen
+          ? `Last seen ${new Date(machine.lastSeen).toLocaleString()}`
+          : undefined,
+        machine,
+      })),
+      {
+        title: "Activated Machines",
+        placeHolder: "Select a machine to deactivate",
+        ignoreFocusOut: true,
+      },
+    );
+    if (!selected) {
+      return; // User cancelled
+    }
+
+    const confirm = await vscode.window.showInformationMessage(
+      `Deactivate ${selected.label}? Its seat will be released.`,
+      { modal: true },
+      "Deactivate Machine",
+    );
+    if (confirm !== "Deactivate Machine") {
+      return;
+    }
+
+    await deactivateMachine(context, licenseKey, selected.machine.machineId);
+    if (selected.machine.isCurrent) {
+      await removeStoredLicense(context);
+    }
+    await vscode.window.showInformationMessage(
+      `${selected.label} deactivated successfully!`,
+    );
+  } catch (error) {
+    await vscode.window.showErrorMessage(
+      `Failed to manage activated machines: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+  }
+}
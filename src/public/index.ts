@@ -1,10 +1,35 @@
-import { getLicense, LicenseData, tagCommand, TagOptions } from "./tag";
+import {
+  getLicense,
+  LicenseData,
+  tagCommand,
+  TagOptions,
+  onDidChangeLicense,
+  hasEntitlement,
+  getQuotaUsage,
+  QuotaOptions,
+  QuotaUsage,
+} from "./tag";
 import {
   withActivateCommand,
   injectCheckoutCommands,
   CheckoutOptions,
   getCheckoutUrl,
+  flushAnalytics,
+  registerUriRoute,
+  UriRouteHandler,
   CheckoutUrlOptions,
+  ValidationPolicy,
+  Storage,
+  StorageOption,
+  TierDefinition,
+  TrialOptions,
+  MockBackendOptions,
+  MockScenario,
+  LogLevel,
+  SecretStorageAdapter,
+  MementoStorage,
+  MemoryStorage,
+  JsonFileStorage,
 } from "./activate";
 
 export {
@@ -15,6 +40,26 @@ export {
   CheckoutOptions,
   getLicense,
   LicenseData,
+  onDidChangeLicense,
+  hasEntitlement,
+  getQuotaUsage,
+  QuotaOptions,
+  QuotaUsage,
   getCheckoutUrl,
+  flushAnalytics,
+  registerUriRoute,
+  UriRouteHandler,
   CheckoutUrlOptions,
+  ValidationPolicy,
+  Storage,
+  StorageOption,
+  TierDefinition,
+  TrialOptions,
+  MockBackendOptions,
+  MockScenario,
+  LogLevel,
+  SecretStorageAdapter,
+  MementoStorage,
+  MemoryStorage,
+  JsonFileStorage,
 };
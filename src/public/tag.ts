@@ -1,10 +1,39 @@
 import * as vscode from "vscode";
+import { logger } from "../private/logger";
 import {
   validateLicense,
   getStoredLicense,
   isLicenseExpired,
   needsOnlineValidation,
+  isRevalidationDue,
+  getEffectiveLicense,
 } from "../private/license-validator";
+import { getCheckoutConfig } from "../private/config";
+import {
+  getTrialLicense,
+  getOrStartTrialLicense,
+  recordTrialInvocation,
+} from "../private/trial";
+import {
+  QuotaOptions,
+  QuotaUsage,
+  consumeQuota,
+  getQuotaUsage as readQuotaUsage,
+  getRegisteredQuota,
+  registerQuota,
+} from "../private/quota";
+
+export type { QuotaOptions, QuotaUsage };
+import {
+  getMissingRequirement,
+  hasEntitlement as licenseHasEntitlement,
+  MissingRequirement,
+} from "../private/entitlements";
+import { getCachedLicense, setCachedLicense } from "../private/license-cache";
+import { onDidChangeLicense } from "../private/license-events";
+import { trackFunnelEvent } from "../private/analytics";
+
+export { onDidChangeLicense };
 
 /**
  * Type helper to unwrap a Promise type
@@ -19,10 +48,61 @@ export interface LicenseData {
   isOnlineValidationRequired?: boolean;
   lastValidated?: string;
   machineId?: string;
+  /** The product tier of the license, such as "pro" or "team" */
+  tier?: string;
+  /** Features and add-ons granted by the license */
+  entitlements?: string[];
+  /** True for subscriptions that renew automatically, false for fixed-term licenses */
+  autoRenew?: boolean;
+  /** True when access comes from a trial rather than a purchased license */
+  isTrial?: boolean;
+  /** Whole days left in a time-limited trial */
+  trialDaysRemaining?: number;
+  /** Uses left in an invocation-limited trial */
+  trialInvocationsRemaining?: number;
+  /** Days left to use the license offline, set while the license server can't be reached */
+  offlineGraceDaysRemaining?: number;
+}
+
+/**
+ * Checks whether a license grants an entitlement, either directly or through
+ * its tier as defined by the `tiers` checkout option
+ * @param context - The extension context
+ * @param licenseData - The license data from `getLicense`
+ * @param entitlement - The entitlement to check
+ */
+export function hasEntitlement(
+  context: vscode.ExtensionContext,
+  licenseData: LicenseData | null | undefined,
+  entitlement: string,
+): boolean {
+  if (!licenseData?.isValid) {
+    return false;
+  }
+  return licenseHasEntitlement(
+    licenseData,
+    entitlement,
+    getCheckoutConfig(context).tiers,
+  );
 }
 
 /**
- * Get the license information for the extension
+ * Gets how much of a command quota has been used in the current period
+ * @param context - The extension context
+ * @param quotaId - The `id` of the quota passed to `tagCommand`
+ * @returns The quota usage, or undefined if no tagged command uses the quota
+ */
+export async function getQuotaUsage(
+  context: vscode.ExtensionContext,
+  quotaId: string,
+): Promise<QuotaUsage | undefined> {
+  const options = getRegisteredQuota(context, quotaId);
+  return options ? readQuotaUsage(context, options) : undefined;
+}
+
+/**
+ * Get the license information for the extension. Results are reused from
+ * memory for a short window so repeated checks don't hit storage or network.
  * @param context - The extension context
  * @param validateOnline - Whether to force online validation regardless of grace period
  * @returns License data object or null if no license is stored
@@ -31,29 +111,61 @@ export async function getLicense(
   context: vscode.ExtensionContext,
   validateOnline = false,
 ): Promise<LicenseData | null> {
-  console.log(
+  if (!validateOnline) {
+    const cached = getCachedLicense(context);
+    if (cached) {
+      logger.debug("[getLicense] Returning cached license result");
+      return cached.value;
+    }
+  }
+
+  let result = await resolveLicense(context, validateOnline);
+
+  // Without a valid license, an active trial grants access
+  if (!result?.isValid) {
+    const trialLicense = await getTrialLicense(context);
+    if (trialLicense?.isValid) {
+      result = trialLicense;
+    }
+  }
+
+  // Failed checks are not cached so the next call tries again
+  if (!result || result.isValid) {
+    setCachedLicense(context, result);
+  }
+  return result;
+}
+
+/**
+ * Resolves the license information from storage, validating online when needed
+ */
+async function resolveLicense(
+  context: vscode.ExtensionContext,
+  validateOnline: boolean,
+): Promise<LicenseData | null> {
+  logger.debug(
     "[getLicense] Starting license check with validateOnline:",
     validateOnline,
   );
 
   const licenseKey = await getStoredLicense(context);
-  console.log(
+  logger.debug(
     "[getLicense] Retrieved stored license:",
     licenseKey ? "Found" : "Not found",
   );
 
   if (!licenseKey) {
-    console.log("[getLicense] No license key found, returning null");
+    logger.debug("[getLicense] No license key found, returning null");
     return null;
   }
 
   try {
     // If online validation is requested or needed, perform it
     const needsOnline = await needsOnlineValidation(context);
-    console.log("[getLicense] Needs online validation:", needsOnline);
+    logger.debug("[getLicense] Needs online validation:", needsOnline);
 
     if (validateOnline || needsOnline) {
-      console.log("[getLicense] Performing online validation");
+      logger.debug("[getLicense] Performing online validation");
       const validationResult = await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
@@ -62,7 +174,7 @@ export async function getLicense(
         },
         () => validateLicense(context, licenseKey),
       );
-      console.log("[getLicense] Online validation result:", validationResult);
+      logger.debug("[getLicense] Online validation result:", validationResult);
       return {
         licenseKey,
         ...validationResult,
@@ -73,10 +185,12 @@ export async function getLicense(
 
     // Check if license is expired
     const isExpired = await isLicenseExpired(context);
-    console.log("[getLicense] License expired check:", isExpired);
+    logger.debug("[getLicense] License expired check:", isExpired);
 
     if (isExpired) {
-      console.log("[getLicense] License expired, performing online validation");
+      logger.debug(
+        "[getLicense] License expired, performing online validation",
+      );
       const validationResult = await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
@@ -85,7 +199,7 @@ export async function getLicense(
         },
         () => validateLicense(context, licenseKey),
       );
-      console.log(
+      logger.debug(
         "[getLicense] Expired license validation result:",
         validationResult,
       );
@@ -99,25 +213,35 @@ export async function getLicense(
 
     // Return offline validation result
     const needsValidation = await needsOnlineValidation(context);
-    console.log(
+    logger.debug(
       "[getLicense] Final needs online validation check:",
       needsValidation,
     );
 
-    // validate the license in the background
-    validateLicense(context, licenseKey);
+    // validate the license in the background when the policy says it's due
+    if (await isRevalidationDue(context)) {
+      validateLicense(context, licenseKey).catch((error) =>
+        logger.error("Background license validation failed:", error),
+      );
+    }
 
+    const storedLicense = await getEffectiveLicense(context);
     const result = {
       licenseKey,
       isValid: true,
       isExpired: false,
       isOnlineValidationRequired: needsValidation,
       lastValidated: new Date().toISOString(),
+      expiresOn: storedLicense?.expiresOn,
+      tier: storedLicense?.tier,
+      entitlements: storedLicense?.entitlements,
+      autoRenew: storedLicense?.autoRenew,
+      offlineGraceDaysRemaining: storedLicense?.offlineGraceDaysRemaining,
     };
-    console.log("[getLicense] Returning offline validation result:", result);
+    logger.debug("[getLicense] Returning offline validation result:", result);
     return result;
   } catch (error) {
-    console.error("[getLicense] License validation failed:", error);
+    logger.error("[getLicense] License validation failed:", error);
     const errorResult = {
       licenseKey,
       isValid: false,
@@ -125,7 +249,7 @@ export async function getLicense(
       isOnlineValidationRequired: true,
       lastValidated: new Date().toISOString(),
     };
-    console.log("[getLicense] Returning error result:", errorResult);
+    logger.debug("[getLicense] Returning error result:", errorResult);
     return errorResult;
   }
 }
@@ -139,8 +263,20 @@ export interface TagOptions {
   activationCtaTitle?: string;
   reactivationMessage?: string;
   reactivationCtaTitle?: string;
+  /** Entitlement the license must grant, directly or through its tier */
+  entitlement?: string;
+  /** Lowest tier allowed to run the command, ordered by the `tiers` checkout option */
+  minimumTier?: string;
+  upgradeMessage?: string;
+  upgradeCtaTitle?: string;
+  trialEndedMessage?: string;
+  /** Free uses per day or month before a license is required */
+  quota?: QuotaOptions;
+  quotaExceededMessage?: string;
 }
 
+const trialNoticeShown = new WeakSet<vscode.ExtensionContext>();
+
 /**
  * Tags a function with license validation
  * @param context - The extension context
@@ -155,7 +291,7 @@ export function tagCommand<T extends (...args: any[]) => any>(
 ): T {
   // Free functions pass through without validation
   if (options.type === "free") {
-    console.log("[tagCommand] Free function, skipping validation");
+    logger.debug("[tagCommand] Free function, skipping validation");
     return fn;
   }
 
@@ -163,84 +299,187 @@ export function tagCommand<T extends (...args: any[]) => any>(
   const { id: extensionId } = context.extension;
   const extensionNameComponents = extensionId.split(".");
   if (extensionNameComponents.length < 2) {
-    console.error("[tagCommand] Invalid extension ID:", extensionId);
+    logger.error("[tagCommand] Invalid extension ID:", extensionId);
     throw new Error("Invalid extension ID");
   }
   const extensionName =
     extensionNameComponents[extensionNameComponents.length - 1];
-  console.log("[tagCommand] Extension name:", extensionName);
+  logger.debug("[tagCommand] Extension name:", extensionName);
+
+  if (options.quota) {
+    registerQuota(context, options.quota);
+  }
 
   return (async (
     ...args: Parameters<T>
   ): Promise<UnwrapPromise<ReturnType<T>>> => {
     try {
-      console.log("[tagCommand] Starting license validation");
+      logger.debug("[tagCommand] Starting license validation");
       // Get and validate license
 
-      const licenseData = await getLicense(context, false);
+      let licenseData = await getLicense(context, false);
 
-      console.log("[tagCommand] License data:", {
+      logger.debug("[tagCommand] License data:", {
         hasLicense: !!licenseData,
         hasLicenseKey: !!licenseData?.licenseKey,
         isValid: licenseData?.isValid,
         isExpired: licenseData?.isExpired,
         isOnlineValidationRequired: licenseData?.isOnlineValidationRequired,
+        isTrial: licenseData?.isTrial,
       });
 
+      // Execute the original function and handle both sync and async results
+      const execute = async () => {
+        const result = fn(...args);
+        return result instanceof Promise
+          ? ((await result) as UnwrapPromise<ReturnType<T>>)
+          : (result as UnwrapPromise<ReturnType<T>>);
+      };
+
+      // Without a valid license, use the free quota while it lasts
+      let isQuotaUsedUp = false;
+      if (!licenseData?.isValid && options.quota) {
+        const usage = await consumeQuota(context, options.quota);
+        if (usage) {
+          logger.debug("[tagCommand] Using free quota:", usage);
+          return await execute();
+        }
+        isQuotaUsedUp = true;
+      }
+
+      // Without a valid license, start or continue a trial if one is
+      // configured. A paid license that expired gets the renewal prompt.
+      if (
+        !licenseData?.isValid &&
+        !(await getEffectiveLicense(context))?.isExpired
+      ) {
+        licenseData = (await getOrStartTrialLicense(context)) ?? licenseData;
+      }
+
+      if (licenseData?.isTrial) {
+        if (!licenseData.isValid) {
+          logger.debug("[tagCommand] Trial has ended");
+          const message = options.trialEndedMessage || "Your trial has ended.";
+          const ctaTitle = options.activationCtaTitle || "Purchase License";
+          await showActivationPrompt(
+            context,
+            extensionName,
+            message,
+            ctaTitle,
+            "trial-ended",
+          );
+          return undefined as UnwrapPromise<ReturnType<T>>;
+        }
+
+        logger.debug("[tagCommand] Trial active, executing function");
+        await recordTrialInvocation(context);
+        if (!trialNoticeShown.has(context)) {
+          trialNoticeShown.add(context);
+          const trialLicense = (await getTrialLicense(context)) ?? licenseData;
+          // Don't block the command on the notification
+          showActivationPrompt(
+            context,
+            extensionName,
+            getTrialMessage(trialLicense),
+            options.activationCtaTitle || "Purchase License",
+            "trial-active",
+          ).catch((error) => {
+            logger.warn("Failed to show trial notice:", error);
+          });
+        }
+        return await execute();
+      }
+
       // Handle no license case
       if (!licenseData || !licenseData.licenseKey) {
-        console.log("[tagCommand] No license found");
+        logger.debug("[tagCommand] No license found");
         const message =
-          options.activationMessage || "This feature requires a valid license.";
+          isQuotaUsedUp && options.quota
+            ? getQuotaExceededMessage(options, options.quota)
+            : options.activationMessage ||
+              "This feature requires a valid license.";
         const ctaTitle = options.activationCtaTitle || "Purchase License";
-        await showActivationPrompt(extensionName, message, ctaTitle);
+        await showActivationPrompt(
+          context,
+          extensionName,
+          message,
+          ctaTitle,
+          isQuotaUsedUp ? "quota-exceeded" : "unlicensed",
+        );
         return undefined as UnwrapPromise<ReturnType<T>>;
       }
 
       // Handle expired or invalid license
       if (!licenseData.isValid || licenseData.isExpired) {
-        console.log("[tagCommand] License invalid or expired");
+        logger.debug("[tagCommand] License invalid or expired");
         const message =
           options.reactivationMessage || "Your license has expired.";
         const ctaTitle = options.reactivationCtaTitle || "Purchase License";
-        await showActivationPrompt(extensionName, message, ctaTitle);
+        await showActivationPrompt(
+          context,
+          extensionName,
+          message,
+          ctaTitle,
+          "expired",
+        );
         return undefined as UnwrapPromise<ReturnType<T>>;
       }
 
       // Handle online validation requirement
+      const licenseKey = licenseData.licenseKey;
       if (licenseData.isOnlineValidationRequired) {
-        console.log("[tagCommand] Online validation required");
+        logger.debug("[tagCommand] Online validation required");
         const validationResult = await vscode.window.withProgress(
           {
             location: vscode.ProgressLocation.Notification,
             title: "Validating license...",
             cancellable: false,
           },
-          () => validateLicense(context, licenseData.licenseKey!),
+          () => validateLicense(context, licenseKey),
+        );
+        logger.debug(
+          "[tagCommand] Online validation result:",
+          validationResult,
         );
-        console.log("[tagCommand] Online validation result:", validationResult);
 
         if (!validationResult.isValid) {
-          console.log("[tagCommand] Online validation failed");
+          logger.debug("[tagCommand] Online validation failed");
           await showActivationPrompt(
+            context,
             extensionName,
             validationResult.message || "Your license is invalid.",
             "Purchase License",
+            "validation-failed",
           );
           return undefined as UnwrapPromise<ReturnType<T>>;
         }
       }
 
-      console.log(
+      // Handle a license below the required tier or entitlement
+      const missing = getMissingRequirement(
+        licenseData,
+        options,
+        getCheckoutConfig(context).tiers,
+      );
+      if (missing) {
+        logger.debug("[tagCommand] License missing requirement:", missing);
+        const { message, ctaTitle } = getUpgradePrompt(options, missing);
+        await showActivationPrompt(
+          context,
+          extensionName,
+          message,
+          ctaTitle,
+          "upgrade",
+        );
+        return undefined as UnwrapPromise<ReturnType<T>>;
+      }
+
+      logger.debug(
         "[tagCommand] License validation successful, executing function",
       );
-      // Execute the original function and handle both sync and async results
-      const result = fn(...args);
-      return result instanceof Promise
-        ? ((await result) as UnwrapPromise<ReturnType<T>>)
-        : (result as UnwrapPromise<ReturnType<T>>);
+      return await execute();
     } catch (error) {
-      console.error("[tagCommand] License validation failed:", error);
+      logger.error("[tagCommand] License validation failed:", error);
       await vscode.window.showErrorMessage(
         `Unable to validate license: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
@@ -249,15 +488,70 @@ export function tagCommand<T extends (...args: any[]) => any>(
   }) as T;
 }
 
+/**
+ * Builds the message shown once the free quota of a command is used up
+ */
+function getQuotaExceededMessage(
+  options: TagOptions,
+  quota: QuotaOptions,
+): string {
+  if (options.quotaExceededMessage) {
+    return options.quotaExceededMessage;
+  }
+  const uses = quota.limit === 1 ? "use" : "uses";
+  const period = quota.period === "day" ? "today" : "this month";
+  return `You've used all ${quota.limit} free ${uses} ${period}. Purchase a license to keep using this feature.`;
+}
+
+/**
+ * Builds the message shown while a trial is running
+ */
+function getTrialMessage(licenseData: LicenseData): string {
+  const { trialDaysRemaining: days, trialInvocationsRemaining: uses } =
+    licenseData;
+  if (days !== undefined) {
+    return `Your trial ends in ${days} ${days === 1 ? "day" : "days"}.`;
+  }
+  if (uses !== undefined) {
+    return `You have ${uses} trial ${uses === 1 ? "use" : "uses"} left.`;
+  }
+  return "You are using a trial.";
+}
+
+/**
+ * Builds the prompt for a license that doesn't meet a command's requirements,
+ * naming the tier to upgrade to when it is known
+ */
+function getUpgradePrompt(
+  options: TagOptions,
+  missing: MissingRequirement,
+): { message: string; ctaTitle: string } {
+  const defaultMessage = missing.tier
+    ? `This feature requires the ${missing.tier} tier.`
+    : `This feature requires the ${missing.entitlement} add-on.`;
+  const defaultCtaTitle = missing.tier
+    ? `Upgrade to ${missing.tier}`
+    : "Upgrade License";
+
+  return {
+    message: options.upgradeMessage || defaultMessage,
+    ctaTitle: options.upgradeCtaTitle || defaultCtaTitle,
+  };
+}
+
 /**
  * Shows the activation prompt with a button to trigger the activate command
- * @param message - Optional custom message to display
+ * @param message - The message to display
+ * @param reason - Why the prompt is shown, reported with funnel analytics
  */
 async function showActivationPrompt(
+  context: vscode.ExtensionContext,
   extensionName: string,
-  message = "This feature requires a valid license.",
-  ctaTitle = "Purchase License",
+  message: string,
+  ctaTitle: string,
+  reason: string,
 ): Promise<void> {
+  trackFunnelEvent(context, "prompt-shown", { source: reason });
   const response = await vscode.window.showInformationMessage(
     message,
     { modal: false },
@@ -265,6 +559,7 @@ async function showActivationPrompt(
   );
 
   if (response === ctaTitle) {
+    trackFunnelEvent(context, "cta-clicked", { source: reason });
     await vscode.commands.executeCommand(
       `${extensionName}.purchaseLicenseCommand`,
     );
@@ -18,6 +18,7 @@ interface VSCodeConfiguration {
       default: string;
       description: string;
       scope: string;
+      ignoreSync?: boolean;
     };
   };
 }
@@ -160,11 +161,15 @@ function updatePackageJson(): void {
       packageJson.contributes.configuration.properties = {};
     }
 
+    // The key itself lives in SecretStorage. The setting is only kept so keys
+    // from earlier versions can be migrated and pasted keys can be imported.
     packageJson.contributes.configuration.properties[`${name}.license-key`] = {
       type: "string",
       default: "",
-      description: "Enter your license key",
-      scope: "global",
+      description:
+        "Paste a license key here to activate it. The key is moved to secure storage and this setting is cleared.",
+      scope: "application",
+      ignoreSync: true,
     };
 
     // Create command using extension's name
@@ -183,10 +188,34 @@ function updatePackageJson(): void {
       title: `${displayName}: Purchase License`,
     };
 
+    const licenseDetailsCommand: VSCodeCommand = {
+      command: `${name}.licenseDetailsCommand`,
+      title: `${displayName}: Show License Details`,
+    };
+
+    const activateOfflineCommand: VSCodeCommand = {
+      command: `${name}.activateOfflineCommand`,
+      title: `${displayName}: Activate Offline`,
+    };
+
+    const manageMachinesCommand: VSCodeCommand = {
+      command: `${name}.manageMachinesCommand`,
+      title: `${displayName}: Manage Activated Machines`,
+    };
+
+    const deactivateMachineCommand: VSCodeCommand = {
+      command: `${name}.deactivateMachineCommand`,
+      title: `${displayName}: Deactivate This Machine`,
+    };
+
     const commands = [
       activateLicenseCommand,
       revokeLicenseCommand,
       purchaseLicenseCommand,
+      licenseDetailsCommand,
+      activateOfflineCommand,
+      manageMachinesCommand,
+      deactivateMachineCommand,
     ];
     for (const newCommand of commands) {
       // Check if command already exists